@@ -4,9 +4,23 @@ import '@nomicfoundation/hardhat-toolbox'
 import '@nomiclabs/hardhat-waffle'
 import 'solidity-coverage'
 
+import './tasks/decode-storage'
+import './tasks/environment'
+import './tasks/finality'
+import './tasks/header'
 import './tasks/output-candidate-manager'
+import './tasks/output-genesis'
 import './tasks/output-slash-indicator'
+import './tasks/rewards'
+import './tasks/slashing'
+import './tasks/snapshot-high-stakes'
+import './tasks/stake-index'
+import './tasks/staker'
+import './tasks/staker-report'
 import './tasks/update-bls'
+import './tasks/validator'
+import './tasks/validator-report'
+import './tasks/verify-outputs'
 
 const DEPLOYER_KEY: string = process.env.DEPLOYER_KEY ||
  "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff"; // Dumy key
@@ -18,14 +32,18 @@ const config: HardhatUserConfig = {
         version: '0.5.17',
         settings: {
           // viaIR: true,
-          optimizer: { enabled: true, runs: 200 }
+          optimizer: { enabled: true, runs: 200 },
+          // Used to snapshot and decode the storage of predeploy contracts.
+          outputSelection: { '*': { '*': ['storageLayout'] } },
         },
       },
       {
         version: '0.8.12',
         settings: {
           // viaIR: true,
-          optimizer: { enabled: true, runs: 200 }
+          optimizer: { enabled: true, runs: 200 },
+          // Used to snapshot and decode the storage of predeploy contracts.
+          outputSelection: { '*': { '*': ['storageLayout'] } },
         },
       },
     ],
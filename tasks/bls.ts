@@ -0,0 +1,96 @@
+import * as fs from 'fs'
+import { utils } from 'ethers'
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
+import { decrypt, validateKeystore } from '@chainsafe/bls-keystore'
+
+// Domain separation tag of the proof-of-possession scheme used by the validator client.
+export const BLS_SIGNATURE_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_'
+
+/**
+ * Assert that the data is a compressed BLS12-381 G1 point in the prime order subgroup,
+ * and not the point at infinity.
+ */
+export const assertBLSPublicKeyPoint = (data: string): string => {
+  const { Fp } = bls.G1.CURVE
+  let point: InstanceType<typeof bls.G1.ProjectivePoint>
+  try {
+    // Decoded without the validation of `fromHex`, which rejects the points out of the subgroup as invalid.
+    point = bls.G1.ProjectivePoint.fromAffine(bls.G1.CURVE.fromBytes(utils.arrayify(data)))
+  } catch (err) {
+    throw new Error(`BLS public key ${data} is not a point on the curve: ${(err as Error).message}`)
+  }
+  if (point.equals(bls.G1.ProjectivePoint.ZERO)) {
+    throw new Error(`BLS public key ${data} is the point at infinity`)
+  }
+  // The compressed point is on the curve by the decoding, but not the uncompressed one.
+  const { x, y } = point.toAffine()
+  if (!Fp.eql(Fp.sqr(y), bls.G1.weierstrassEquation(x))) {
+    throw new Error(`BLS public key ${data} is not a point on the curve`)
+  }
+  if (!point.isTorsionFree()) {
+    throw new Error(`BLS public key ${data} is not in the prime order subgroup`)
+  }
+  return data
+}
+
+/**
+ * Returns the compressed public key of the secret key.
+ */
+export const getBLSPublicKey = (secretKey: string): string => utils.hexlify(bls.getPublicKey(utils.arrayify(secretKey)))
+
+/**
+ * Returns the secret key stored in the EIP-2335 keystore.
+ * Throws if the password is wrong or the `pubkey` of the keystore does not match the secret key.
+ */
+export const readBLSKeystore = async (path: string, password: string): Promise<string> => {
+  const keystore = JSON.parse(fs.readFileSync(path, 'utf-8'))
+  validateKeystore(keystore)
+
+  const secretKey = utils.hexlify(await decrypt(keystore, password))
+  const publicKey = getBLSPublicKey(secretKey)
+  if (publicKey.slice(2) !== keystore.pubkey.replace(/^0x/, '').toLowerCase()) {
+    throw new Error(`Keystore ${path} has pubkey ${keystore.pubkey}, but the secret key derives ${publicKey}`)
+  }
+  return secretKey
+}
+
+/**
+ * Returns the secret key in the hex encoded key file of the validator client.
+ */
+export const readBLSSecretKeyFile = (path: string): string => {
+  const content = fs.readFileSync(path, 'utf-8').trim()
+  const secretKey = content.startsWith('0x') ? content : '0x' + content
+  if (!utils.isHexString(secretKey, 32)) {
+    throw new Error(`Key file ${path} does not contain a 32 bytes hex secret key`)
+  }
+  return secretKey.toLowerCase()
+}
+
+/**
+ * Returns the challenge message signed to prove the possession of the BLS key,
+ * which binds the key to the validator owner.
+ */
+export const getBLSChallenge = (owner: string): string => utils.getAddress(owner).toLowerCase()
+
+/**
+ * Sign the message by the secret key, used to produce the signature to be verified.
+ */
+export const signBLSMessage = (secretKey: string, message: string): string =>
+  utils.hexlify(bls.sign(utils.arrayify(message), utils.arrayify(secretKey), { DST: BLS_SIGNATURE_DST }))
+
+/**
+ * Assert that the signature over the message is made by the public key.
+ */
+export const assertBLSSignature = (publicKey: string, message: string, signature: string) => {
+  let valid: boolean
+  try {
+    valid = bls.verify(utils.arrayify(signature), utils.arrayify(message), utils.arrayify(publicKey), {
+      DST: BLS_SIGNATURE_DST,
+    })
+  } catch (err) {
+    throw new Error(`BLS signature ${signature} is malformed: ${(err as Error).message}`)
+  }
+  if (!valid) {
+    throw new Error(`BLS signature ${signature} over ${message} is not made by ${publicKey}`)
+  }
+}
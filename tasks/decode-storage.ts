@@ -0,0 +1,48 @@
+import * as fs from 'fs'
+import { task } from 'hardhat/config'
+
+import { Storage, DecodedStorage, getStorageLayout, decodeStorage } from './lib'
+
+const zeroAddress = '0x0000000000000000000000000000000000000000'
+
+// Contract specific views of the decoded storage.
+const views: { [contract: string]: (decoded: DecodedStorage) => object } = {
+  AddressList: (decoded) => {
+    const addresses: string[] = decoded._addresses
+    const ids: { [address: string]: string } = decoded._ids
+
+    // Same as the `prev` and `next` functions of the AddressList.
+    const links = addresses.map((address) => {
+      const id = Number(ids[address] ?? 0)
+      return {
+        address,
+        id,
+        prev: id >= 2 ? addresses[id - 2] : zeroAddress,
+        next: id >= 1 && id < addresses.length ? addresses[id] : zeroAddress,
+      }
+    })
+
+    return { owner: decoded._owner, addresses, links }
+  },
+}
+
+task('decode-storage', 'Decode the storage in the output JSON into the named variables')
+  .addParam('contract', 'Contract name of the artifact')
+  .addParam('file', 'Path to the JSON file containing the storage')
+  .addOptionalParam('path', 'Dot separated path to the storage in the JSON, e.g. `AddressList.storage.mainnet`')
+  .addOptionalParam('keys', 'JSON of the known mapping keys per variable, e.g. `{"_ids":["0x..."]}`')
+  .setAction(async (taskArgs, hre) => {
+    let storage: Storage = JSON.parse(fs.readFileSync(taskArgs.file, 'utf-8'))
+    for (const key of taskArgs.path?.split('.') ?? []) {
+      storage = (storage as any)[key]
+      if (storage === undefined) {
+        throw new Error(`Path ${taskArgs.path} not found in ${taskArgs.file}`)
+      }
+    }
+
+    const layout = await getStorageLayout(hre, taskArgs.contract)
+    const decoded = decodeStorage(hre, layout, storage, taskArgs.keys ? JSON.parse(taskArgs.keys) : {})
+
+    const view = views[taskArgs.contract]
+    console.log(JSON.stringify(view ? { ...view(decoded), variables: decoded } : decoded, null, 2))
+  })
@@ -0,0 +1,311 @@
+import * as fs from 'fs'
+import { task } from 'hardhat/config'
+import { BigNumber, constants, utils } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { addFormatParam, formatRows, parseFormat } from './format'
+import { getPredeployContract } from './predeploys'
+
+export type EnvironmentValue = {
+  startBlock: number
+  startEpoch: number
+  blockPeriod: number
+  epochPeriod: number
+  rewardRate: number
+  commissionRate: number
+  validatorThreshold: BigNumber
+  jailThreshold: number
+  jailPeriod: number
+}
+
+/**
+ * Convert the `IEnvironment.EnvironmentValue` struct returned by the contract.
+ */
+export const toEnvironmentValue = (x: any): EnvironmentValue => ({
+  startBlock: BigNumber.from(x.startBlock).toNumber(),
+  startEpoch: BigNumber.from(x.startEpoch).toNumber(),
+  blockPeriod: BigNumber.from(x.blockPeriod).toNumber(),
+  epochPeriod: BigNumber.from(x.epochPeriod).toNumber(),
+  rewardRate: BigNumber.from(x.rewardRate).toNumber(),
+  commissionRate: BigNumber.from(x.commissionRate).toNumber(),
+  validatorThreshold: BigNumber.from(x.validatorThreshold),
+  jailThreshold: BigNumber.from(x.jailThreshold).toNumber(),
+  jailPeriod: BigNumber.from(x.jailPeriod).toNumber(),
+})
+
+/**
+ * Same as `EnvironmentValue.epoch`, evaluated at the block.
+ */
+export const epochAt = (value: EnvironmentValue, block: number): number =>
+  value.startEpoch + Math.floor((block - value.startBlock) / value.epochPeriod)
+
+/**
+ * Same as `EnvironmentValue.nextStartBlock`.
+ */
+export const nextStartBlock = (value: EnvironmentValue, newValue: EnvironmentValue): number =>
+  value.startBlock + (newValue.startEpoch - value.startEpoch) * value.epochPeriod
+
+/**
+ * Same as `EnvironmentValue.started`.
+ */
+export const started = (value: EnvironmentValue, block: number): boolean => block >= value.startBlock
+
+/**
+ * Returns the value in effect at the block.
+ * @param values Historic values sorted by the start epoch.
+ */
+export const findValueByBlock = (values: EnvironmentValue[], block: number): EnvironmentValue =>
+  [...values].reverse().find((value) => started(value, block)) ?? values[0]
+
+/**
+ * Returns the value in effect at the epoch, as `Environment.findValue` does.
+ * @param values Historic values sorted by the start epoch.
+ */
+export const findValueByEpoch = (values: EnvironmentValue[], epoch: number): EnvironmentValue =>
+  [...values].reverse().find((value) => value.startEpoch <= epoch) ?? values[0]
+
+/**
+ * Returns the epoch of the block.
+ */
+export const getEpoch = (values: EnvironmentValue[], block: number): number =>
+  epochAt(findValueByBlock(values, block), block)
+
+/**
+ * Returns the first block of the epoch.
+ */
+export const getEpochStartBlock = (values: EnvironmentValue[], epoch: number): number => {
+  const value = findValueByEpoch(values, epoch)
+  return value.startBlock + (epoch - value.startEpoch) * value.epochPeriod
+}
+
+/**
+ * Returns the number of blocks from the block to the first block of the next epoch.
+ */
+export const getBlocksUntilNextEpoch = (values: EnvironmentValue[], block: number): number =>
+  getEpochStartBlock(values, getEpoch(values, block) + 1) - block
+
+/**
+ * Returns the seconds from the block to the later block, estimated by the block periods of the values in between.
+ */
+export const estimateSeconds = (values: EnvironmentValue[], from: number, to: number): number => {
+  let seconds = 0
+  for (let n = from; n < to; ) {
+    const { blockPeriod } = findValueByBlock(values, n)
+    const next = Math.min(to, getEpochStartBlock(values, getEpoch(values, n) + 1))
+    seconds += (next - n) * blockPeriod
+    n = next
+  }
+  return seconds
+}
+
+// Same as the `Constants` library.
+export const EnvironmentConstants = {
+  MIN_BLOCK_PERIOD: 1,
+  MIN_EPOCH_PERIOD: 3,
+  MAX_REWARD_RATE: 100,
+  MIN_VALIDATOR_THRESHOLD: 1,
+  MIN_JAIL_THRESHOLD: 1,
+  MIN_JAIL_PERIOD: 1,
+  MAX_COMMISSION_RATE: 100,
+}
+
+/**
+ * Same as `EnvironmentValue.validate`.
+ * @returns Details of the `ValidationError`, in the order the contract checks. Empty if valid.
+ */
+export const validateEnvironmentValue = (value: EnvironmentValue): string[] => {
+  const c = EnvironmentConstants
+  const errors: string[] = []
+  if (value.blockPeriod < c.MIN_BLOCK_PERIOD) errors.push('blockPeriod is too small.')
+  if (value.epochPeriod < c.MIN_EPOCH_PERIOD) errors.push('epochPeriod is too small.')
+  if (value.rewardRate > c.MAX_REWARD_RATE) errors.push('rewardRate is too large.')
+  if (value.commissionRate > c.MAX_COMMISSION_RATE) errors.push('commissionRate is too large.')
+  if (value.validatorThreshold.lt(c.MIN_VALIDATOR_THRESHOLD)) errors.push('validatorThreshold is too small.')
+  if (value.jailThreshold < c.MIN_JAIL_THRESHOLD) errors.push('jailThreshold is too small.')
+  if (value.jailPeriod < c.MIN_JAIL_PERIOD) errors.push('jailPeriod is too small.')
+  return errors
+}
+
+/**
+ * Returns the start block `Environment.updateValue` would set when called at the block.
+ * Throws with the custom error name if the call would revert for the timing.
+ */
+export const computeStartBlock = (values: EnvironmentValue[], newValue: EnvironmentValue, block: number): number => {
+  const current = findValueByBlock(values, block)
+  if ((block - current.startBlock + 1) % current.epochPeriod === 0) {
+    throw new Error(`OnlyNotLastBlock: block ${block} is the last block of the epoch`)
+  }
+  if (newValue.startEpoch <= getEpoch(values, block)) {
+    throw new Error(`PastEpoch: startEpoch ${newValue.startEpoch} is not after epoch ${getEpoch(values, block)}`)
+  }
+
+  const latest = values[values.length - 1]
+  if (started(latest, block)) return nextStartBlock(latest, newValue)
+  return nextStartBlock(values[values.length - 2] ?? latest, newValue)
+}
+
+const EnvironmentFields: (keyof EnvironmentValue)[] = [
+  'startBlock',
+  'startEpoch',
+  'blockPeriod',
+  'epochPeriod',
+  'rewardRate',
+  'commissionRate',
+  'validatorThreshold',
+  'jailThreshold',
+  'jailPeriod',
+]
+
+/**
+ * Parse the proposed value. `startBlock` is optional as the contract overwrites it,
+ * and `validatorThreshold` is in wei.
+ */
+export const parseEnvironmentProposal = (json: { [field: string]: any }): EnvironmentValue => {
+  for (const field of Object.keys(json)) {
+    if (!EnvironmentFields.includes(field as keyof EnvironmentValue)) throw new Error(`Unknown field \`${field}\``)
+  }
+  for (const field of EnvironmentFields) {
+    if (field !== 'startBlock' && json[field] === undefined) throw new Error(`Missing field \`${field}\``)
+  }
+  return toEnvironmentValue({ startBlock: 0, ...json })
+}
+
+/**
+ * Returns all values stored in the Environment, sorted by the start epoch.
+ * The values are discovered by binary searching the epochs where `findValue` changes.
+ */
+export const fetchEnvironmentValues = async (
+  hre: HRE,
+  blockTag: string | number = 'latest',
+): Promise<EnvironmentValue[]> => {
+  const environment = await getPredeployContract(hre, 'Environment')
+  const findValue = async (epoch: BigNumber | number) =>
+    toEnvironmentValue(await environment.findValue(epoch, { blockTag }))
+
+  // The initial value always starts at epoch 1, and `findValue` reverts for the epoch before it.
+  const values = [await findValue(1)]
+  const latest = await findValue(constants.MaxUint256)
+
+  while (values[values.length - 1].startEpoch !== latest.startEpoch) {
+    // Smallest epoch whose value differs from the last found value.
+    let lo = values[values.length - 1].startEpoch + 1
+    let hi = latest.startEpoch
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2)
+      if ((await findValue(mid)).startEpoch === values[values.length - 1].startEpoch) lo = mid + 1
+      else hi = mid
+    }
+    values.push(await findValue(lo))
+  }
+  return values
+}
+
+/**
+ * Convert the values to JSON, with `validatorThreshold` in wei.
+ */
+export const serializeEnvironmentValues = (values: EnvironmentValue[]): string =>
+  JSON.stringify(
+    values.map((value) => ({ ...value, validatorThreshold: value.validatorThreshold.toString() })),
+    null,
+    2,
+  )
+
+/**
+ * Read the values exported by the `env-history` task.
+ */
+export const readEnvironmentValues = (path: string): EnvironmentValue[] => {
+  const values = (JSON.parse(fs.readFileSync(path, 'utf-8')) as any[]).map(toEnvironmentValue)
+  if (values.length === 0) throw new Error(`No values in ${path}`)
+  return values.sort((a, b) => a.startEpoch - b.startEpoch)
+}
+
+task('epoch-info', 'Output the epoch of the block and the start block of the epoch')
+  .addOptionalParam('block', 'Block number, defaults to the latest block')
+  .addOptionalParam('epoch', 'Epoch number to find the start block of')
+  .addOptionalParam('history', 'JSON file exported by `env-history`, instead of fetching the values')
+  .setAction(async (taskArgs, hre) => {
+    const latest = await hre.ethers.provider.getBlockNumber()
+    const block = taskArgs.block !== undefined ? Number(taskArgs.block) : latest
+    const values = taskArgs.history ? readEnvironmentValues(taskArgs.history) : await fetchEnvironmentValues(hre)
+
+    const epoch = getEpoch(values, block)
+    const value = findValueByBlock(values, block)
+    console.log(`Block:               ${block}`)
+    console.log(`Epoch:               ${epoch}`)
+    console.log(`Epoch start block:   ${getEpochStartBlock(values, epoch)}`)
+    console.log(`Next epoch block:    ${getEpochStartBlock(values, epoch + 1)}`)
+    console.log(`Blocks until next:   ${getBlocksUntilNextEpoch(values, block)}`)
+    console.log(`Epoch period:        ${value.epochPeriod} blocks (${value.epochPeriod * value.blockPeriod}s)`)
+    console.log(`Validator threshold: ${utils.formatEther(value.validatorThreshold)} OAS`)
+
+    if (taskArgs.epoch !== undefined) {
+      const target = Number(taskArgs.epoch)
+      const startBlock = getEpochStartBlock(values, target)
+      console.log(`Epoch ${target} starts at block ${startBlock}`)
+      if (startBlock > latest) {
+        const { timestamp } = await hre.ethers.provider.getBlock(latest)
+        const eta = new Date((timestamp + estimateSeconds(values, latest, startBlock)) * 1000).toISOString()
+        console.log(`  in ${startBlock - latest} blocks, around ${eta}`)
+      }
+    }
+  })
+
+addFormatParam(task('env-history', 'Output all values the Environment has had, with the start epoch and block'))
+  .addOptionalParam('blockTag', 'Block to read the values at', 'latest')
+  .addOptionalParam('output', 'JSON file to export the history to')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    const blockTag = taskArgs.blockTag === 'latest' ? 'latest' : Number(taskArgs.blockTag)
+    const values = await fetchEnvironmentValues(hre, blockTag)
+
+    if (taskArgs.output) {
+      fs.writeFileSync(taskArgs.output, serializeEnvironmentValues(values) + '\n')
+      console.log(`Exported ${values.length} values to ${taskArgs.output}`)
+      return
+    }
+    const rows = values.map((value) => ({
+      ...value,
+      validatorThreshold: utils.formatEther(value.validatorThreshold),
+    }))
+    console.log(formatRows(format, rows))
+  })
+
+addFormatParam(task('env-proposal', 'Validate the proposed environment value and output the updateValue calldata'))
+  .addParam('file', 'JSON file of the proposed EnvironmentValue')
+  .addOptionalParam('block', 'Block number the update is embedded in, defaults to the next block')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    const proposal = parseEnvironmentProposal(JSON.parse(fs.readFileSync(taskArgs.file, 'utf-8')))
+    const latest = await hre.ethers.provider.getBlockNumber()
+    const block = taskArgs.block !== undefined ? Number(taskArgs.block) : latest + 1
+
+    const errors = validateEnvironmentValue(proposal)
+    for (const error of errors) console.error(`ValidationError: ${error}`)
+
+    const values = await fetchEnvironmentValues(hre)
+    try {
+      proposal.startBlock = computeStartBlock(values, proposal, block)
+    } catch (err) {
+      errors.push((err as Error).message)
+      console.error((err as Error).message)
+    }
+
+    const environment = await getPredeployContract(hre, 'Environment')
+    const current = toEnvironmentValue(await environment.value())
+    const next = toEnvironmentValue(await environment.nextValue())
+    const rows = EnvironmentFields.map((field) => ({
+      field,
+      value: current[field].toString(),
+      nextValue: next[field].toString(),
+      proposed: proposal[field].toString(),
+      changed: current[field].toString() !== proposal[field].toString(),
+    }))
+    console.log(formatRows(format, rows))
+
+    if (errors.length > 0) {
+      process.exitCode = 1
+      return
+    }
+    console.log(`\nCalldata of updateValue to ${environment.address}:`)
+    console.log(environment.interface.encodeFunctionData('updateValue', [proposal]))
+  })
@@ -0,0 +1,178 @@
+import * as fs from 'fs'
+import { task } from 'hardhat/config'
+import { BigNumber, constants, utils } from 'ethers'
+
+import { assertBLSSignature } from './bls'
+import { toRLPQuantity } from './header'
+import { simulateCall, sendCall } from './lib'
+import { getPredeployContract } from './predeploys'
+
+export const BLS_VERIFY_INPUT_LENGTH = 176
+
+/**
+ * Same as `ISlashIndicator.VoteData`.
+ */
+export type VoteData = {
+  srcNum: number
+  srcHash: string
+  tarNum: number
+  tarHash: string
+  sig: string
+}
+
+/**
+ * Same as `ISlashIndicator.FinalityEvidence`.
+ */
+export type FinalityEvidence = {
+  voteA: VoteData
+  voteB: VoteData
+  voteAddr: string
+}
+
+/**
+ * Vote message broadcast by the validator, as `VoteEnvelope` of the node.
+ */
+export type VoteMessage = {
+  voteAddress: string
+  signature: string
+  data: {
+    sourceNumber: number | string
+    sourceHash: string
+    targetNumber: number | string
+    targetHash: string
+  }
+}
+
+/**
+ * Returns the hash the vote signature is made over, as `SlashIndicator._verifyBLSSignature` computes.
+ */
+export const getVoteHash = (vote: Omit<VoteData, 'sig'>): string =>
+  utils.keccak256(
+    utils.RLP.encode([toRLPQuantity(vote.srcNum), vote.srcHash, toRLPQuantity(vote.tarNum), vote.tarHash]),
+  )
+
+/**
+ * Returns the input of the BLS verification precompile at 0x66, as `SlashIndicator._verifyBLSSignature` assembles:
+ * the vote hash (32 bytes), the signature (96 bytes) and the public key (48 bytes).
+ */
+export const encodeBLSVerifyInput = (vote: VoteData, voteAddr: string): string =>
+  utils.hexConcat([getVoteHash(vote), utils.hexDataSlice(vote.sig, 0, 96), utils.hexDataSlice(voteAddr, 0, 48)])
+
+/**
+ * Returns what the BLS verification precompile outputs for the input, by verifying the signature.
+ * Throws if the input is not 176 bytes.
+ */
+export const verifyBLSVerifyInput = (input: string): boolean => {
+  if (utils.hexDataLength(input) !== BLS_VERIFY_INPUT_LENGTH) {
+    throw new Error(`BLS verify input must be ${BLS_VERIFY_INPUT_LENGTH} bytes, got ${utils.hexDataLength(input)}`)
+  }
+  const hash = utils.hexDataSlice(input, 0, 32)
+  const sig = utils.hexDataSlice(input, 32, 128)
+  const voteAddr = utils.hexDataSlice(input, 128, 176)
+  try {
+    assertBLSSignature(voteAddr, hash, sig)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Convert the vote message into the `VoteData` and the BLS public key of the voter.
+ */
+export const toVoteData = (message: VoteMessage): { vote: VoteData; voteAddr: string } => ({
+  vote: {
+    srcNum: BigNumber.from(message.data.sourceNumber).toNumber(),
+    srcHash: utils.hexlify(message.data.sourceHash),
+    tarNum: BigNumber.from(message.data.targetNumber).toNumber(),
+    tarHash: utils.hexlify(message.data.targetHash),
+    sig: utils.hexlify(message.signature),
+  },
+  voteAddr: utils.hexlify(message.voteAddress),
+})
+
+/**
+ * Build the evidence from the two vote messages of the same voter.
+ */
+export const buildFinalityEvidence = (messageA: VoteMessage, messageB: VoteMessage): FinalityEvidence => {
+  const a = toVoteData(messageA)
+  const b = toVoteData(messageB)
+  if (a.voteAddr !== b.voteAddr) throw new Error(`Votes are made by different voters, ${a.voteAddr} and ${b.voteAddr}`)
+  return { voteA: a.vote, voteB: b.vote, voteAddr: a.voteAddr }
+}
+
+/**
+ * Same checks as `SlashIndicator.submitFinalityViolationEvidence` before jailing, in the same order.
+ * Throws with the custom error name if the evidence would be rejected.
+ * @param block Block number the evidence is submitted in.
+ * @param slashScope Epoch period of the current environment value.
+ */
+export const assertFinalityEvidence = (evidence: FinalityEvidence, block: number, slashScope: number) => {
+  const { voteA: a, voteB: b } = evidence
+  if (a.tarNum + slashScope <= block || b.tarNum + slashScope <= block) {
+    throw new Error(`TargetBlockTooOld: targets ${a.tarNum} and ${b.tarNum} + slash scope ${slashScope} <= ${block}`)
+  }
+  if (a.srcHash === b.srcHash && a.tarHash === b.tarHash) {
+    throw new Error('TwoIdenticalVotes: votes have the same source and target')
+  }
+  if (a.tarNum <= a.srcNum || b.tarNum <= b.srcNum) {
+    throw new Error(`SrcNumBiggerThanTarNum: ${a.srcNum}->${a.tarNum} and ${b.srcNum}->${b.tarNum}`)
+  }
+
+  // Surround votes, or two votes for the same target.
+  const surround = (x: VoteData, y: VoteData) => x.srcNum < y.srcNum && y.tarNum < x.tarNum
+  if (!surround(a, b) && !surround(b, a) && a.tarNum !== b.tarNum) {
+    throw new Error(`NoViolationOfVoteRules: ${a.srcNum}->${a.tarNum} and ${b.srcNum}->${b.tarNum}`)
+  }
+
+  for (const vote of [a, b]) {
+    if (!verifyBLSVerifyInput(encodeBLSVerifyInput(vote, evidence.voteAddr))) {
+      const hash = getVoteHash(vote)
+      throw new Error(`VerifySignatureFailed: ${vote.sig} over ${hash} is not made by ${evidence.voteAddr}`)
+    }
+  }
+}
+
+task('submit-finality-evidence', 'Call submitFinalityViolationEvidence function of SlashIndicator')
+  .addParam('voteA', 'JSON file of the first vote message')
+  .addParam('voteB', 'JSON file of the second vote message')
+  .addOptionalParam('confirmations', 'Number of blocks to wait for', '2')
+  .addFlag('dryRun', 'Simulate the call without sending the transaction')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const environment = await getPredeployContract(hre, 'Environment')
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const slashIndicator = await getPredeployContract(hre, 'SlashIndicator')
+
+    const evidence = buildFinalityEvidence(
+      JSON.parse(fs.readFileSync(taskArgs.voteA, 'utf-8')),
+      JSON.parse(fs.readFileSync(taskArgs.voteB, 'utf-8')),
+    )
+    console.log(`Voter: ${evidence.voteAddr}`)
+    for (const [label, vote] of [
+      ['A', evidence.voteA],
+      ['B', evidence.voteB],
+    ] as const) {
+      console.log(`Vote ${label}: ${vote.srcNum} (${vote.srcHash}) -> ${vote.tarNum} (${vote.tarHash})`)
+    }
+
+    const owner = await stakeManager.blsPublicKeyToOwner(utils.hexDataSlice(evidence.voteAddr, 0, 32))
+    if (owner === constants.AddressZero) {
+      throw new Error(`Voter ${evidence.voteAddr} is not the BLS public key of any validator`)
+    }
+    console.log(`Validator owner: ${owner}`)
+
+    const { epochPeriod } = await environment.value()
+    const block = (await hre.ethers.provider.getBlockNumber()) + 1
+    assertFinalityEvidence(evidence, block, epochPeriod.toNumber())
+
+    const args = [evidence]
+    if (taskArgs.dryRun) {
+      await simulateCall(hre, slashIndicator, 'submitFinalityViolationEvidence', args, signer.address)
+      console.log('submitFinalityViolationEvidence would succeed')
+      return
+    }
+    const confirmations = Number(taskArgs.confirmations)
+    const receipt = await sendCall(hre, slashIndicator, 'submitFinalityViolationEvidence', args, confirmations)
+    console.log(`submitFinalityViolationEvidence confirmed in block ${receipt.blockNumber}: ${receipt.transactionHash}`)
+  })
@@ -0,0 +1,66 @@
+import type { ConfigurableTaskDefinition } from 'hardhat/types'
+
+export type Format = 'table' | 'json' | 'csv'
+
+export type Row = { [column: string]: string | number | boolean }
+
+const Formats: Format[] = ['table', 'json', 'csv']
+
+const columnsOf = (rows: Row[]): string[] => [...new Set(rows.flatMap((row) => Object.keys(row)))]
+
+const cell = (value: Row[string] | undefined): string => (value === undefined ? '' : String(value))
+
+/**
+ * Render the rows as a plain text table.
+ * Numbers are aligned to the right.
+ */
+export const formatTable = (rows: Row[]): string => {
+  const columns = columnsOf(rows)
+  const widths = columns.map((column) => Math.max(column.length, ...rows.map((row) => cell(row[column]).length)))
+  const isNumeric = columns.map((column) => rows.every((row) => /^-?[\d.]*%?$/.test(cell(row[column]))))
+
+  const line = (values: string[], align: boolean) =>
+    values
+      .map((value, i) => (align && isNumeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd()
+
+  const separator = widths.map((width) => '-'.repeat(width))
+  const cells = (row: Row) => columns.map((column) => cell(row[column]))
+  return [line(columns, false), line(separator, false), ...rows.map((row) => line(cells(row), true))].join('\n')
+}
+
+/**
+ * Render the rows as RFC 4180 CSV.
+ */
+export const formatCSV = (rows: Row[]): string => {
+  const columns = columnsOf(rows)
+  const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+  return [columns, ...rows.map((row) => columns.map((column) => cell(row[column])))]
+    .map((values) => values.map(escape).join(','))
+    .join('\n')
+}
+
+export const formatRows = (format: Format, rows: Row[]): string => {
+  switch (format) {
+    case 'table':
+      return formatTable(rows)
+    case 'json':
+      return JSON.stringify(rows, null, 2)
+    case 'csv':
+      return formatCSV(rows)
+  }
+}
+
+/**
+ * Add the `--format` parameter to the report task.
+ */
+export const addFormatParam = (definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition =>
+  definition.addOptionalParam('format', `Output format, ${Formats.join('|')}`, 'table')
+
+export const parseFormat = (value: string): Format => {
+  if (!Formats.includes(value as Format)) {
+    throw new Error(`Unknown format \`${value}\`, expect one of ${Formats.join('|')}`)
+  }
+  return value as Format
+}
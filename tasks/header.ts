@@ -0,0 +1,286 @@
+import * as fs from 'fs'
+import { task } from 'hardhat/config'
+import { BigNumber, BigNumberish, constants, utils } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { simulateCall, sendCall } from './lib'
+import { getPredeployContract } from './predeploys'
+
+/**
+ * Block header as returned by `eth_getBlockByHash`, numbers are hex quantities.
+ */
+export type Header = {
+  hash?: string
+  parentHash: string
+  sha3Uncles: string
+  miner: string
+  stateRoot: string
+  transactionsRoot: string
+  receiptsRoot: string
+  logsBloom: string
+  difficulty: string
+  number: string
+  gasLimit: string
+  gasUsed: string
+  timestamp: string
+  extraData: string
+  mixHash: string
+  nonce: string
+  // London
+  baseFeePerGas?: string
+  // Shanghai
+  withdrawalsRoot?: string
+  // Cancun
+  blobGasUsed?: string
+  excessBlobGas?: string
+  parentBeaconBlockRoot?: string
+  // Prague
+  requestsHash?: string
+}
+
+export type DoubleSignEvidence = {
+  header1: string
+  header2: string
+  sealer: string
+  height: number
+}
+
+// Length of the sealer signature at the end of the extra-data.
+export const EXTRA_SEAL_LENGTH = 65
+
+const HeaderFields: (keyof Header)[] = [
+  'parentHash',
+  'sha3Uncles',
+  'miner',
+  'stateRoot',
+  'transactionsRoot',
+  'receiptsRoot',
+  'logsBloom',
+  'difficulty',
+  'number',
+  'gasLimit',
+  'gasUsed',
+  'timestamp',
+  'extraData',
+  'mixHash',
+  'nonce',
+]
+
+const QuantityFields: (keyof Header)[] = [
+  'difficulty',
+  'number',
+  'gasLimit',
+  'gasUsed',
+  'timestamp',
+  'baseFeePerGas',
+  'blobGasUsed',
+  'excessBlobGas',
+]
+
+// Fields added by the forks, in the order of the RLP list.
+const OptionalFields: (keyof Header)[] = [
+  'baseFeePerGas',
+  'withdrawalsRoot',
+  'blobGasUsed',
+  'excessBlobGas',
+  'parentBeaconBlockRoot',
+  'requestsHash',
+]
+
+/**
+ * Returns the minimal big-endian bytes of the number to RLP encode, empty for zero.
+ */
+export const toRLPQuantity = (value: BigNumberish): string => {
+  const quantity = BigNumber.from(value)
+  return quantity.isZero() ? '0x' : quantity.toHexString()
+}
+
+const headerFields = (header: Header, extraData: string): string[] => {
+  const fields = [
+    header.parentHash,
+    header.sha3Uncles,
+    header.miner,
+    header.stateRoot,
+    header.transactionsRoot,
+    header.receiptsRoot,
+    header.logsBloom,
+    toRLPQuantity(header.difficulty),
+    toRLPQuantity(header.number),
+    toRLPQuantity(header.gasLimit),
+    toRLPQuantity(header.gasUsed),
+    toRLPQuantity(header.timestamp),
+    extraData,
+    header.mixHash,
+    header.nonce,
+  ]
+
+  // Optional fields are encoded up to the last present one, as go-ethereum does.
+  const last = OptionalFields.reduce((last, field, i) => (header[field] === undefined ? last : i), -1)
+  for (const field of OptionalFields.slice(0, last + 1)) {
+    const value = header[field]
+    if (value === undefined) throw new Error(`Missing \`${field}\` required by the later fields`)
+    fields.push(QuantityFields.includes(field) ? toRLPQuantity(value) : value)
+  }
+  return fields
+}
+
+/**
+ * RLP encode the header, the keccak256 of which is the block hash.
+ */
+export const encodeHeader = (header: Header): string => utils.RLP.encode(headerFields(header, header.extraData))
+
+/**
+ * Throws if the header does not encode to its `hash`, such as when a field is missing.
+ */
+export const assertHeaderHash = (header: Header) => {
+  if (header.hash === undefined) return
+  const actual = utils.keccak256(encodeHeader(header))
+  if (actual !== header.hash.toLowerCase()) {
+    throw new Error(`Header ${header.number} encodes to ${actual}, not the block hash ${header.hash}`)
+  }
+}
+
+/**
+ * Returns the hash the sealer signs, which prepends the chain id and strips the signature from the extra-data.
+ */
+export const sealHash = (header: Header, chainId: number): string => {
+  const extraData = utils.arrayify(header.extraData)
+  if (extraData.length < EXTRA_SEAL_LENGTH) {
+    throw new Error(`Header ${header.number} has no signature in the extra-data`)
+  }
+  const unsigned = utils.hexlify(extraData.slice(0, extraData.length - EXTRA_SEAL_LENGTH))
+  return utils.keccak256(utils.RLP.encode([toRLPQuantity(String(chainId)), ...headerFields(header, unsigned)]))
+}
+
+/**
+ * Returns the operator address recovered from the signature at the end of the extra-data.
+ */
+export const recoverSealer = (header: Header, chainId: number): string => {
+  const extraData = utils.arrayify(header.extraData)
+  const signature = extraData.slice(extraData.length - EXTRA_SEAL_LENGTH)
+  return utils.recoverAddress(sealHash(header, chainId), signature)
+}
+
+/**
+ * Build the arguments of `SlashIndicator.submitDoubleSignEvidence`,
+ * asserting the headers are different blocks at the same height sealed by the same operator.
+ */
+export const buildDoubleSignEvidence = (header1: Header, header2: Header, chainId: number): DoubleSignEvidence => {
+  assertHeaderHash(header1)
+  assertHeaderHash(header2)
+
+  const height = BigNumber.from(header1.number).toNumber()
+  if (!BigNumber.from(header2.number).eq(height)) {
+    throw new Error(`Headers are at different heights, ${height} and ${BigNumber.from(header2.number)}`)
+  }
+
+  const encoded1 = encodeHeader(header1)
+  const encoded2 = encodeHeader(header2)
+  if (encoded1 === encoded2) throw new Error('Headers are the same block')
+
+  const sealer = recoverSealer(header1, chainId)
+  const sealer2 = recoverSealer(header2, chainId)
+  if (sealer !== sealer2) throw new Error(`Headers are sealed by different operators, ${sealer} and ${sealer2}`)
+
+  return { header1: encoded1, header2: encoded2, sealer, height }
+}
+
+/**
+ * Decode the RLP encoded header, the inverse of `encodeHeader`.
+ */
+export const decodeHeader = (encoded: string): Header => {
+  const fields = utils.RLP.decode(encoded)
+  if (!Array.isArray(fields) || fields.length < 15 || fields.length > 15 + OptionalFields.length) {
+    throw new Error(`Not an RLP encoded header: ${encoded}`)
+  }
+  const names: (keyof Header)[] = [...HeaderFields, ...OptionalFields].slice(0, fields.length)
+  const header = Object.fromEntries(
+    names.map((name, i) => [name, QuantityFields.includes(name) ? utils.hexValue(fields[i]) : fields[i]]),
+  ) as Header
+  return { ...header, hash: utils.keccak256(encoded) }
+}
+
+/**
+ * Returns the input `SlashIndicator.submitDoubleSignEvidence` gives to the double-sign precompile at 0x68,
+ * the RLP list of the chain id and the two encoded headers.
+ */
+export const encodeDoubleSignInput = (chainId: number, header1: string, header2: string): string =>
+  utils.RLP.encode([toRLPQuantity(chainId), header1, header2])
+
+/**
+ * Decode the input of the double-sign precompile, the inverse of `encodeDoubleSignInput`.
+ */
+export const decodeDoubleSignInput = (input: string): { chainId: number; header1: Header; header2: Header } => {
+  const elements = utils.RLP.decode(input)
+  if (!Array.isArray(elements) || elements.length !== 3 || elements.some((x) => typeof x !== 'string')) {
+    throw new Error(`Not a double-sign evidence: ${input}`)
+  }
+  return {
+    chainId: BigNumber.from(utils.hexValue(elements[0])).toNumber(),
+    header1: decodeHeader(elements[1]),
+    header2: decodeHeader(elements[2]),
+  }
+}
+
+/**
+ * Returns what the double-sign precompile outputs for the input, the sealer and the height.
+ * Throws where the precompile fails, if the headers are not a double sign.
+ */
+export const verifyDoubleSignInput = (input: string): { signer: string; evidenceHeight: number } => {
+  const { chainId, header1, header2 } = decodeDoubleSignInput(input)
+  const { sealer, height } = buildDoubleSignEvidence(header1, header2, chainId)
+  return { signer: sealer, evidenceHeight: height }
+}
+
+/**
+ * Read the header by the block hash from the node, or from the JSON file.
+ */
+export const loadHeader = async (hre: HRE, hashOrPath: string): Promise<Header> => {
+  if (!utils.isHexString(hashOrPath, 32)) return JSON.parse(fs.readFileSync(hashOrPath, 'utf-8'))
+
+  const header = await hre.ethers.provider.send('eth_getBlockByHash', [hashOrPath, false])
+  if (!header) throw new Error(`Block ${hashOrPath} is not found`)
+  return header
+}
+
+task('submit-double-sign', 'Call submitDoubleSignEvidence function of SlashIndicator')
+  .addParam('header1', 'Block hash or JSON file of the first header')
+  .addParam('header2', 'Block hash or JSON file of the second header')
+  .addOptionalParam('confirmations', 'Number of blocks to wait for', '2')
+  .addFlag('dryRun', 'Simulate the call without sending the transaction')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const { chainId } = await hre.ethers.provider.getNetwork()
+    const environment = await getPredeployContract(hre, 'Environment')
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const slashIndicator = await getPredeployContract(hre, 'SlashIndicator')
+
+    const header1 = await loadHeader(hre, taskArgs.header1)
+    const header2 = await loadHeader(hre, taskArgs.header2)
+    const evidence = buildDoubleSignEvidence(header1, header2, chainId)
+    console.log(`Height: ${evidence.height}`)
+    console.log(`Sealer: ${evidence.sealer}`)
+
+    const owner = await stakeManager.operatorToOwner(evidence.sealer)
+    if (owner === constants.AddressZero) {
+      throw new Error(`Sealer ${evidence.sealer} is not an operator of any validator`)
+    }
+    console.log(`Validator owner: ${owner}`)
+
+    // Same as `SlashIndicator._slashScope`, checked against the block the transaction lands in.
+    const { epochPeriod } = await environment.value()
+    const block = (await hre.ethers.provider.getBlockNumber()) + 1
+    if (epochPeriod.add(evidence.height).lt(block)) {
+      throw new Error(`EvidenceTooOld: height ${evidence.height} + slash scope ${epochPeriod} < block ${block}`)
+    }
+
+    const args = [evidence.header1, evidence.header2]
+    if (taskArgs.dryRun) {
+      await simulateCall(hre, slashIndicator, 'submitDoubleSignEvidence', args, signer.address)
+      console.log('submitDoubleSignEvidence would succeed')
+      return
+    }
+    const confirmations = Number(taskArgs.confirmations)
+    const receipt = await sendCall(hre, slashIndicator, 'submitDoubleSignEvidence', args, confirmations)
+    console.log(`submitDoubleSignEvidence confirmed in block ${receipt.blockNumber}: ${receipt.transactionHash}`)
+  })
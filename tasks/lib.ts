@@ -1,23 +1,25 @@
 import * as crypto from 'crypto'
-import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+import { BigNumber, utils } from 'ethers'
+import type { BigNumberish, Contract, ContractReceipt, PayableOverrides } from 'ethers'
+import type { CompilerOutputContract, HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
 
 export type Networks = 'mainnet' | 'testnet' | 'localnet'
 
 export type Storage = { [slot: string]: string }
 
+export type Alloc = {
+  [address: string]: CodeAndHash & {
+    storage: Storage
+    balance: string
+  }
+}
+
 export const Chains: { [network in Networks]: { chainID: number } } = {
   mainnet: { chainID: 248 },
   testnet: { chainID: 9372 },
   localnet: { chainID: 12345 },
 } as const
 
-export const PredeployContracts = {
-  Environment: '0x0000000000000000000000000000000000001000',
-  StakeManager: '0x0000000000000000000000000000000000001001',
-  CandidateValidatorManagerHighStakes: '0x520000000000000000000000000000000000002D',
-  CandidateValidatorManager: '0x520000000000000000000000000000000000002e',
-} as const
-
 export const assertImmutableVariable = async (method: () => Promise<any>, expect: any) => {
   const actual = await method()
   if (actual !== expect) {
@@ -25,13 +27,47 @@ export const assertImmutableVariable = async (method: () => Promise<any>, expect
   }
 }
 
-export const codeAndHash = async (hre: HRE, address: string): Promise<{ code: string; hash: string }> => {
+export type CodeAndHash = {
+  code: string
+  // MD5 of the code
+  hash: string
+  // Keccak256 of the code, same as the `codeHash` of the account state and `extcodehash`
+  codeHash: string
+  // Byte length of the code
+  size: number
+  // Keccak256 of the code without the CBOR encoded metadata appended by the compiler
+  strippedCodeHash: string
+}
+
+/**
+ * Strip the CBOR encoded metadata from the end of the code.
+ * The last two bytes are the big-endian length of the metadata.
+ */
+export const stripMetadata = (code: string): string => {
+  const bytes = Buffer.from(code.replace(/^0x/, ''), 'hex')
+  if (bytes.length < 2) return code
+
+  const length = bytes.readUInt16BE(bytes.length - 2)
+  const start = bytes.length - 2 - length
+  // The metadata is always a CBOR map.
+  if (length === 0 || start < 0 || (bytes[start] & 0xe0) !== 0xa0) return code
+
+  return '0x' + bytes.subarray(0, start).toString('hex')
+}
+
+export const codeAndHash = async (hre: HRE, address: string): Promise<CodeAndHash> => {
   const code = await hre.ethers.provider.send('eth_getCode', [address, 'latest'])
   const hash = crypto
     .createHash('md5')
     .update(Buffer.from(code.slice(2), 'hex'))
     .digest('hex')
-  return { code, hash }
+  return {
+    code,
+    hash,
+    codeHash: hre.ethers.utils.keccak256(code),
+    size: (code.length - 2) / 2,
+    strippedCodeHash: hre.ethers.utils.keccak256(stripMetadata(code)),
+  }
 }
 
 export const getStorageChanges = async (hre: HRE, txhash: string): Promise<Storage> => {
@@ -48,3 +84,553 @@ export const getStorageChanges = async (hre: HRE, txhash: string): Promise<Stora
 }
 
 export const mergeStorage = (src: Storage, appends: Storage): Storage => ({ ...src, ...appends })
+
+export const mergeStorageChanges = async (hre: HRE, txhashes: string[]): Promise<Storage> => {
+  let storage: Storage = {}
+  for (const txhash of txhashes) {
+    storage = mergeStorage(storage, await getStorageChanges(hre, txhash))
+  }
+  return storage
+}
+
+export type StorageLayout = {
+  storage: StorageLayoutEntry[]
+  types: { [type: string]: StorageLayoutType } | null
+}
+
+export type StorageLayoutEntry = {
+  label: string
+  offset: number
+  slot: string
+  type: string
+}
+
+export type StorageLayoutType = {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes'
+  label: string
+  numberOfBytes: string
+  base?: string
+  key?: string
+  value?: string
+  members?: StorageLayoutEntry[]
+}
+
+// Contract output of the compiler with the `storageLayout`, which the hardhat types omit.
+type CompilerOutputContractWithLayout = CompilerOutputContract & { storageLayout?: StorageLayout }
+
+// Known mapping keys per state variable label.
+// A key path can be passed as an array for nested mappings.
+export type StorageKeys = { [label: string]: (string | string[])[] }
+
+export type StorageStrategy = 'trace' | 'layout'
+
+/**
+ * Returns the storage layout of the contract output by the compiler.
+ * Requires `storageLayout` in the `outputSelection` of the compiler settings.
+ */
+export const getStorageLayout = async (hre: HRE, name: string): Promise<StorageLayout> => {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(name)
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+  const output: CompilerOutputContractWithLayout | undefined = buildInfo?.output.contracts[sourceName][contractName]
+  const layout = output?.storageLayout
+  if (!layout) {
+    throw new Error(`Storage layout of ${name} not found, check the outputSelection of the compiler settings`)
+  }
+  return layout
+}
+
+const toSlot = (n: bigint): string => '0x' + n.toString(16).padStart(64, '0')
+
+const keccakSlot = (hre: HRE, data: string): bigint => BigInt(hre.ethers.utils.keccak256(data))
+
+/**
+ * Returns the ABI encoded mapping key to be hashed with the mapping slot.
+ * Value types are padded to 32 bytes, while string and bytes are hashed as is.
+ */
+export const encodeMappingKey = (hre: HRE, keyType: StorageLayoutType, key: string): string => {
+  const { utils } = hre.ethers
+  const label = keyType.label.replace(/^contract |^enum /, '')
+  if (keyType.encoding === 'bytes') {
+    return label === 'string' ? utils.hexlify(utils.toUtf8Bytes(key)) : utils.hexlify(key)
+  }
+  if (/^bytes\d+$/.test(label)) {
+    return utils.hexlify(key).padEnd(66, '0')
+  }
+  if (label === 'bool') {
+    return utils.hexZeroPad(key === 'true' ? '0x1' : '0x0', 32)
+  }
+  return utils.hexZeroPad(utils.hexlify(hre.ethers.BigNumber.from(key)), 32)
+}
+
+/**
+ * Enumerate the candidate slots of the contract from the storage layout.
+ * Mapping slots are derived from the known keys, and the length of dynamic arrays,
+ * strings and bytes are read from the chain.
+ */
+export const enumerateStorageSlots = async (
+  hre: HRE,
+  address: string,
+  layout: StorageLayout,
+  keys: StorageKeys = {},
+  blockTag = 'latest',
+): Promise<bigint[]> => {
+  const types = layout.types ?? {}
+  const read = async (slot: bigint): Promise<bigint> =>
+    BigInt(await hre.ethers.provider.send('eth_getStorageAt', [address, toSlot(slot), blockTag]))
+
+  const slots: bigint[] = []
+  const visit = async (typeName: string, slot: bigint, keyPaths: string[][]): Promise<void> => {
+    const type = types[typeName]
+    const numberOfSlots = (bytes: string) => BigInt(Math.ceil(Number(bytes) / 32))
+
+    switch (type.encoding) {
+      case 'inplace':
+        if (type.members) {
+          for (const member of type.members) {
+            await visit(member.type, slot + BigInt(member.slot), keyPaths)
+          }
+        } else if (type.base && types[type.base].encoding !== 'inplace') {
+          const length = Number(type.numberOfBytes) / Number(types[type.base].numberOfBytes)
+          const size = numberOfSlots(types[type.base].numberOfBytes)
+          for (let i = 0n; i < BigInt(length); i++) {
+            await visit(type.base, slot + i * size, keyPaths)
+          }
+        } else {
+          for (let i = 0n; i < numberOfSlots(type.numberOfBytes); i++) {
+            slots.push(slot + i)
+          }
+        }
+        return
+
+      case 'mapping': {
+        const keyType = types[type.key!]
+        const grouped = new Map<string, string[][]>()
+        for (const [key, ...rest] of keyPaths) {
+          if (key === undefined) continue
+          grouped.set(key, [...(grouped.get(key) ?? []), rest])
+        }
+        for (const [key, rest] of grouped) {
+          const encoded = encodeMappingKey(hre, keyType, key)
+          await visit(type.value!, keccakSlot(hre, hre.ethers.utils.hexConcat([encoded, toSlot(slot)])), rest)
+        }
+        return
+      }
+
+      case 'dynamic_array': {
+        slots.push(slot)
+        const length = await read(slot)
+        const base = types[type.base!]
+        const start = keccakSlot(hre, toSlot(slot))
+        if (base.encoding === 'inplace' && !base.members && Number(base.numberOfBytes) < 32) {
+          const perSlot = BigInt(Math.floor(32 / Number(base.numberOfBytes)))
+          for (let i = 0n; i < (length + perSlot - 1n) / perSlot; i++) {
+            slots.push(start + i)
+          }
+        } else {
+          const size = numberOfSlots(base.numberOfBytes)
+          for (let i = 0n; i < length; i++) {
+            await visit(type.base!, start + i * size, keyPaths)
+          }
+        }
+        return
+      }
+
+      case 'bytes': {
+        slots.push(slot)
+        const value = await read(slot)
+        // Short values are stored in the same slot with the length.
+        if ((value & 1n) === 0n) return
+        const length = (value - 1n) / 2n
+        const start = keccakSlot(hre, toSlot(slot))
+        for (let i = 0n; i < (length + 31n) / 32n; i++) {
+          slots.push(start + i)
+        }
+        return
+      }
+    }
+  }
+
+  for (const entry of layout.storage) {
+    const keyPaths = (keys[entry.label] ?? []).map((key) => (Array.isArray(key) ? key : [key]))
+    await visit(entry.type, BigInt(entry.slot), keyPaths)
+  }
+  return [...new Set(slots)]
+}
+
+/**
+ * Read the storage of the contract with `eth_getStorageAt` without `debug_traceTransaction`.
+ * The candidate slots are enumerated from the storage layout, and zero values are omitted.
+ */
+export const getStorageByLayout = async (
+  hre: HRE,
+  address: string,
+  name: string,
+  keys: StorageKeys = {},
+  blockTag = 'latest',
+): Promise<Storage> => {
+  const layout = await getStorageLayout(hre, name)
+  const slots = await enumerateStorageSlots(hre, address, layout, keys, blockTag)
+
+  const storage: Storage = {}
+  for (const slot of slots.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+    const value = await hre.ethers.provider.send('eth_getStorageAt', [address, toSlot(slot), blockTag])
+    if (BigInt(value) !== 0n) {
+      storage[toSlot(slot)] = hre.ethers.utils.hexZeroPad(value, 32)
+    }
+  }
+  return storage
+}
+
+/**
+ * Snapshot the storage of the contract with the specified strategy.
+ * `trace` merges the storage changes of the transactions, `layout` reads the slots from the storage layout.
+ */
+export const snapshotStorage = async (
+  hre: HRE,
+  strategy: StorageStrategy,
+  target: { address: string; name: string; txs: string[]; keys?: StorageKeys },
+): Promise<Storage> => {
+  switch (strategy) {
+    case 'trace':
+      return mergeStorageChanges(hre, target.txs)
+    case 'layout':
+      return getStorageByLayout(hre, target.address, target.name, target.keys)
+    default:
+      throw new Error(`Unknown storage strategy: ${strategy}`)
+  }
+}
+
+export type DecodedStorage = { [label: string]: any }
+
+/**
+ * Decode the storage into the named state variables using the storage layout.
+ * Mapping entries are decoded for the known keys and for the addresses found in the other variables.
+ * Slots that are not explained by the layout are returned under `(unknown)`.
+ */
+export const decodeStorage = (
+  hre: HRE,
+  layout: StorageLayout,
+  storage: Storage,
+  keys: StorageKeys = {},
+): DecodedStorage => {
+  const { utils } = hre.ethers
+  const types = layout.types ?? {}
+
+  const values = new Map<bigint, bigint>()
+  Object.entries(storage).forEach(([slot, value]) => values.set(BigInt(slot), BigInt(value)))
+  const explained = new Set<bigint>()
+  const read = (slot: bigint): bigint => {
+    explained.add(slot)
+    return values.get(slot) ?? 0n
+  }
+
+  // Addresses found while decoding, used as the candidate keys of address mappings.
+  const addresses = new Set<string>()
+
+  const decodeValue = (type: StorageLayoutType, word: bigint, offset: number): any => {
+    const size = Number(type.numberOfBytes)
+    const raw = (word >> BigInt(offset * 8)) & ((1n << BigInt(size * 8)) - 1n)
+    const label = type.label
+    if (label === 'address' || label === 'address payable' || label.startsWith('contract ')) {
+      const address = utils.getAddress(utils.hexZeroPad('0x' + raw.toString(16), 20))
+      if (raw !== 0n) addresses.add(address)
+      return address
+    }
+    if (label === 'bool') return raw !== 0n
+    if (label.startsWith('enum ')) return Number(raw)
+    if (/^bytes\d+$/.test(label)) return utils.hexZeroPad('0x' + raw.toString(16), size)
+    if (label.startsWith('int')) {
+      const bits = BigInt(size * 8)
+      return (raw >= 1n << (bits - 1n) ? raw - (1n << bits) : raw).toString()
+    }
+    return raw.toString()
+  }
+
+  const decodeElements = (baseName: string, start: bigint, length: bigint, pass: number): any[] => {
+    const base = types[baseName]
+    const size = Number(base.numberOfBytes)
+    const elements: any[] = []
+    if (base.encoding === 'inplace' && !base.members && !base.base && size < 32) {
+      const perSlot = BigInt(Math.floor(32 / size))
+      for (let i = 0n; i < length; i++) {
+        elements.push(decodeValue(base, read(start + i / perSlot), Number(i % perSlot) * size))
+      }
+    } else {
+      const slots = BigInt(Math.ceil(size / 32))
+      for (let i = 0n; i < length; i++) {
+        elements.push(decode(baseName, start + i * slots, 0, [], pass))
+      }
+    }
+    return elements
+  }
+
+  const decode = (typeName: string, slot: bigint, offset: number, keyPaths: string[][], pass: number): any => {
+    const type = types[typeName]
+    switch (type.encoding) {
+      case 'inplace':
+        if (type.members) {
+          return Object.fromEntries(
+            type.members.map((m) => [m.label, decode(m.type, slot + BigInt(m.slot), m.offset, keyPaths, pass)]),
+          )
+        }
+        if (type.base) {
+          const length = BigInt(Number(type.numberOfBytes) / Number(types[type.base].numberOfBytes))
+          return decodeElements(type.base, slot, length, pass)
+        }
+        return decodeValue(type, read(slot), offset)
+
+      case 'dynamic_array':
+        return decodeElements(type.base!, keccakSlot(hre, toSlot(slot)), read(slot), pass)
+
+      case 'bytes': {
+        const word = read(slot)
+        let data: string
+        if ((word & 1n) === 0n) {
+          // Short values are stored in the higher-order bytes with the length * 2 in the lowest byte.
+          data = utils.hexDataSlice(toSlot(word), 0, Number(word & 0xffn) / 2)
+        } else {
+          const length = Number((word - 1n) / 2n)
+          const start = keccakSlot(hre, toSlot(slot))
+          const words = [...Array(Math.ceil(length / 32)).keys()].map((i) => toSlot(read(start + BigInt(i))))
+          data = utils.hexDataSlice(utils.hexConcat(words.length ? words : ['0x']), 0, length)
+        }
+        return type.label === 'string' ? utils.toUtf8String(data) : data
+      }
+
+      case 'mapping': {
+        // Mappings are decoded at the second pass, after the addresses are collected.
+        if (pass === 0) return {}
+
+        const keyType = types[type.key!]
+        const candidates = new Map<string, string[][]>()
+        for (const [key, ...rest] of keyPaths) {
+          if (key !== undefined) candidates.set(key, [...(candidates.get(key) ?? []), rest])
+        }
+        if (keyType.label === 'address' || keyType.label.startsWith('contract ')) {
+          addresses.forEach((address) => candidates.set(address, candidates.get(address) ?? []))
+        }
+
+        const entries: { [key: string]: any } = {}
+        for (const [key, rest] of candidates) {
+          const encoded = encodeMappingKey(hre, keyType, key)
+          const valueSlot = keccakSlot(hre, utils.hexConcat([encoded, toSlot(slot)]))
+
+          // Omit the entries that are not stored.
+          const before = new Set(explained)
+          const value = decode(type.value!, valueSlot, 0, rest, pass)
+          const stored = [...explained].some((x) => !before.has(x) && values.has(x))
+          if (stored) entries[key] = value
+        }
+        return entries
+      }
+    }
+  }
+
+  const keyPathsOf = (label: string) => (keys[label] ?? []).map((key) => (Array.isArray(key) ? key : [key]))
+  const decoded: DecodedStorage = {}
+  for (const pass of [0, 1]) {
+    for (const entry of layout.storage) {
+      decoded[entry.label] = decode(entry.type, BigInt(entry.slot), entry.offset, keyPathsOf(entry.label), pass)
+    }
+  }
+
+  const unknown = Object.entries(storage).filter(([slot]) => !explained.has(BigInt(slot)))
+  if (unknown.length > 0) {
+    decoded['(unknown)'] = Object.fromEntries(unknown)
+  }
+  return decoded
+}
+
+export type Difference = { path: string; expect: any; actual: any }
+
+/**
+ * Compare two JSON values field by field.
+ * @returns List of the differences, empty if both are identical.
+ */
+export const diffJSON = (expect: any, actual: any, path = ''): Difference[] => {
+  const isObject = (x: any) => typeof x === 'object' && x !== null
+
+  if (!isObject(expect) || !isObject(actual)) {
+    return expect === actual ? [] : [{ path, expect, actual }]
+  }
+
+  const keys = [...new Set([...Object.keys(expect), ...Object.keys(actual)])].sort()
+  return keys.flatMap((key) => diffJSON(expect[key], actual[key], path ? `${path}.${key}` : key))
+}
+
+/**
+ * Returns the human readable line of the difference.
+ * Long hex strings such as bytecode are summarized by the first mismatched byte.
+ */
+export const formatDifference = ({ path, expect, actual }: Difference): string => {
+  const isLongHex = (x: any) => typeof x === 'string' && x.startsWith('0x') && x.length > 66
+  if (isLongHex(expect) && isLongHex(actual)) {
+    let i = 2
+    while (i < expect.length && expect[i] === actual[i]) i++
+    return (
+      `${path}: mismatch at byte ${Math.floor((i - 2) / 2)}` +
+      ` (expect ${(expect.length - 2) / 2} bytes, actual ${(actual.length - 2) / 2} bytes)`
+    )
+  }
+
+  const show = (x: any) => (x === undefined ? '(missing)' : isLongHex(x) ? `${x.slice(0, 66)}...` : JSON.stringify(x))
+  return `${path}: expect ${show(expect)}, actual ${show(actual)}`
+}
+
+/**
+ * Returns the interface of the custom errors declared in all artifacts,
+ * as a revert may bubble up from a library or another contract.
+ */
+export const getErrorInterface = async (hre: HRE): Promise<utils.Interface> => {
+  const errors = new Map<string, utils.ErrorFragment>()
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name)
+    for (const x of abi.filter((x: any) => x.type === 'error')) {
+      const fragment = utils.ErrorFragment.from(x)
+      errors.set(fragment.format(), fragment)
+    }
+  }
+  return new utils.Interface([...errors.values()])
+}
+
+/**
+ * Returns the revert data nested in the error thrown by the provider, if any.
+ */
+export const findRevertData = (err: any): string | undefined => {
+  for (let e = err; e; e = e.error) {
+    if (typeof e.data === 'string' && e.data.startsWith('0x')) return e.data
+    if (typeof e.data?.data === 'string' && e.data.data.startsWith('0x')) return e.data.data
+    // `callStatic` of ethers decodes the revert data by the contract ABI, and throws without the data.
+    if (e.code === 'CALL_EXCEPTION' && typeof e.errorSignature === 'string' && e.errorArgs) {
+      // Parsed as a function, since `Error(string)` and `Panic(uint256)` are not allowed as the error fragments.
+      const { inputs } = utils.FunctionFragment.from(e.errorSignature)
+      const selector = utils.id(e.errorSignature).slice(0, 10)
+      return utils.hexConcat([selector, utils.defaultAbiCoder.encode(inputs, e.errorArgs)])
+    }
+  }
+  return undefined
+}
+
+/**
+ * Returns the human readable revert reason such as `AlreadyInUse()` or `Error("over amount")`.
+ */
+export const decodeRevert = (iface: utils.Interface, data: string): string => {
+  if (data === '0x') return 'reverted without reason'
+
+  const selector = data.slice(0, 10)
+  const params = '0x' + data.slice(10)
+  if (selector === '0x08c379a0') {
+    return `Error(${JSON.stringify(utils.defaultAbiCoder.decode(['string'], params)[0])})`
+  }
+  if (selector === '0x4e487b71') {
+    return `Panic(${utils.defaultAbiCoder.decode(['uint256'], params)[0].toHexString()})`
+  }
+
+  try {
+    const { name, args } = iface.parseError(data)
+    return `${name}(${args.map((x: any) => x.toString()).join(', ')})`
+  } catch (err) {
+    return `unknown custom error ${selector}`
+  }
+}
+
+/**
+ * Simulate the contract call by `eth_call`.
+ * Throws with the decoded revert reason if the call would revert.
+ */
+export const simulateCall = async (
+  hre: HRE,
+  contract: Contract,
+  method: string,
+  args: any[],
+  from: string,
+  overrides: PayableOverrides = {},
+): Promise<any> => {
+  try {
+    return await contract.callStatic[method](...args, { ...overrides, from })
+  } catch (err) {
+    const data = findRevertData(err)
+    if (data === undefined) throw err
+    throw new Error(`${method} reverts with ${decodeRevert(await getErrorInterface(hre), data)}`)
+  }
+}
+
+/**
+ * Send the contract call after simulating it, and wait for the confirmations.
+ */
+export const sendCall = async (
+  hre: HRE,
+  contract: Contract,
+  method: string,
+  args: any[],
+  confirmations = 2,
+  overrides: PayableOverrides = {},
+): Promise<ContractReceipt> => {
+  await simulateCall(hre, contract, method, args, await contract.signer.getAddress(), overrides)
+  const tx = await contract[method](...args, overrides)
+  return tx.wait(confirmations)
+}
+
+export type PaginateOptions = {
+  // Initial page size
+  howMany?: number
+  // Page size not to be shrunk below
+  minHowMany?: number
+}
+
+const isLimitError = (err: any): boolean =>
+  /out of gas|gas required exceeds|exceeds block gas limit|response size|too large|limit exceeded|timeout/i.test(
+    String(err?.message ?? err),
+  )
+
+/**
+ * Iterate the pages of the view following the `cursor/howMany → newCursor` convention.
+ * `howMany` is halved while the call fails by the gas or response size limits of `eth_call`.
+ * @param fetch Calls the view, such as `(cursor, howMany) => stakeManager.getValidatorOwners(cursor, howMany)`.
+ */
+export async function* paginate<T extends { newCursor: BigNumberish } = any>(
+  fetch: (cursor: number, howMany: number) => Promise<T>,
+  { howMany = 100, minHowMany = 1 }: PaginateOptions = {},
+): AsyncGenerator<{ cursor: number; page: T }> {
+  let cursor = 0
+  while (true) {
+    let page: T
+    try {
+      page = await fetch(cursor, howMany)
+    } catch (err) {
+      if (howMany <= minHowMany || !isLimitError(err)) throw err
+      howMany = Math.max(minHowMany, Math.floor(howMany / 2))
+      continue
+    }
+
+    const newCursor = BigNumber.from(page.newCursor).toNumber()
+    if (newCursor === cursor) return
+    yield { cursor, page }
+
+    // A short page is the last one.
+    if (newCursor - cursor < howMany) return
+    cursor = newCursor
+  }
+}
+
+export type RetryOptions = {
+  // Number of retries after the first attempt
+  retries?: number
+  // Milliseconds before the first retry, doubled for each retry
+  delay?: number
+}
+
+/**
+ * Call the function again while it fails, such as for the rate limits or timeouts of the RPC.
+ * Throws the last error if all retries fail.
+ */
+export const retry = async <T>(fn: () => Promise<T>, { retries = 3, delay = 1000 }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (err) {
+      if (attempt >= retries) throw err
+      await new Promise((resolve) => setTimeout(resolve, delay * 2 ** attempt))
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { task } from 'hardhat/config'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { Networks, Alloc, StorageStrategy, Chains, codeAndHash } from './lib'
+import {
+  Predeploys,
+  PredeployName,
+  PredeployConfig,
+  defaultPredeployConfig,
+  deployPredeploy,
+  snapshotPredeployStorage,
+} from './predeploys'
+import { addValidatorSetParams, resolvePredeployConfig } from './validators'
+
+export type Output = { [network in Networks]: Alloc }
+
+export const generateGenesisOutput = async (
+  hre: HRE,
+  strategy: StorageStrategy = 'trace',
+  config: PredeployConfig = defaultPredeployConfig,
+): Promise<Output> => {
+  const output = {} as Output
+
+  for (const network of Object.keys(Chains) as Networks[]) {
+    output[network] = {}
+
+    for (const name of Object.keys(Predeploys) as PredeployName[]) {
+      const deployed = await deployPredeploy(hre, name, network, config)
+
+      output[network][Predeploys[name].address] = {
+        ...(await codeAndHash(hre, deployed.contract.address)),
+        // Storage written by the constructor and the setup calls.
+        storage: await snapshotPredeployStorage(hre, strategy, name, network, deployed, config),
+        balance: '0x0',
+      }
+    }
+  }
+
+  return output
+}
+
+addValidatorSetParams(task('output-genesis', 'Output the genesis alloc of all predeploy contracts'))
+  .addOptionalParam('strategy', 'Storage snapshot strategy, `trace` or `layout`', 'trace')
+  .setAction(async (taskArgs, hre) => {
+    const config = resolvePredeployConfig(taskArgs)
+    const output = await generateGenesisOutput(hre, taskArgs.strategy, config)
+    console.log(JSON.stringify(output, null, 2))
+  })
@@ -1,44 +1,21 @@
 import { task } from 'hardhat/config'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
 
-import { Chains, PredeployContracts, assertImmutableVariable, codeAndHash } from './lib'
+import { Networks, CodeAndHash, Chains, codeAndHash } from './lib'
+import { deployPredeploy } from './predeploys'
 
-task('output-slash-indicator').setAction(async (_, hre) => {
-  const slashIndicatorFactory = await hre.ethers.getContractFactory('SlashIndicator')
-
-  // Mainnet
-  const mainnet = await slashIndicatorFactory.deploy(
-    PredeployContracts.Environment,
-    PredeployContracts.StakeManager,
-    Chains.mainnet.chainID,
-  )
-  await assertImmutableVariable(mainnet.environment, PredeployContracts.Environment)
-  await assertImmutableVariable(mainnet.stakeManager, PredeployContracts.StakeManager)
-  await assertImmutableVariable(mainnet.chainId, Chains.mainnet.chainID)
-
-  // Testnet
-  const testnet = await slashIndicatorFactory.deploy(
-    PredeployContracts.Environment,
-    PredeployContracts.StakeManager,
-    Chains.testnet.chainID,
-  )
-  await assertImmutableVariable(testnet.environment, PredeployContracts.Environment)
-  await assertImmutableVariable(testnet.stakeManager, PredeployContracts.StakeManager)
-  await assertImmutableVariable(testnet.chainId, Chains.testnet.chainID)
+export type Output = { [network in Networks]: CodeAndHash }
 
-  // Localnet
-  const localnet = await slashIndicatorFactory.deploy(
-    PredeployContracts.Environment,
-    PredeployContracts.StakeManager,
-    Chains.localnet.chainID,
-  )
-  await assertImmutableVariable(localnet.environment, PredeployContracts.Environment)
-  await assertImmutableVariable(localnet.stakeManager, PredeployContracts.StakeManager)
-  await assertImmutableVariable(localnet.chainId, Chains.localnet.chainID)
-
-  const output = {
-    mainnet: await codeAndHash(hre, mainnet.address),
-    testnet: await codeAndHash(hre, testnet.address),
-    localnet: await codeAndHash(hre, localnet.address),
+export const generateSlashIndicatorOutput = async (hre: HRE): Promise<Output> => {
+  const output = {} as Output
+  for (const network of Object.keys(Chains) as Networks[]) {
+    const { contract } = await deployPredeploy(hre, 'SlashIndicator', network)
+    output[network] = await codeAndHash(hre, contract.address)
   }
+  return output
+}
+
+task('output-slash-indicator').setAction(async (_, hre) => {
+  const output = await generateSlashIndicatorOutput(hre)
   console.log(JSON.stringify(output, null, 2))
 })
@@ -0,0 +1,199 @@
+import type { Contract } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import {
+  Networks,
+  Storage,
+  StorageKeys,
+  StorageStrategy,
+  Chains,
+  assertImmutableVariable,
+  snapshotStorage,
+} from './lib'
+
+// Network specific values that are not fixed in the manifest.
+export type PredeployConfig = {
+  // Initial validators of the CandidateValidatorManagerHighStakes
+  highStakeValidators: { [network in Networks]: string[] }
+}
+
+export type Predeploy = {
+  // Address embedded in the genesis
+  address: string
+  // Contract name of the Hardhat artifact
+  artifact: string
+  // Constructor arguments per network
+  args?: (network: Networks, config: PredeployConfig) => any[]
+  // Immutable variables to be asserted after deployment, keyed by the getter name
+  immutables?: (network: Networks, config: PredeployConfig) => { [getter: string]: any }
+  // Calls to be sent after deployment, in order
+  setup?: { method: string; args: (network: Networks, config: PredeployConfig) => any[] }[]
+  // Known mapping keys used to snapshot the storage by the layout
+  storageKeys?: (network: Networks, config: PredeployConfig) => StorageKeys
+}
+
+export const initialHighStakeValidators: { [network in Networks]: string[] } = {
+  mainnet: [
+    '0x86652fE437425AC63211C55b6b067B3181BBcB17',
+    '0xa505014a84e8BdC4A620470A53EAd872b0c1CA5b',
+    '0xF5100e233E0A5AF82e9C6f3DEdF6Ca2E45099eF8',
+    '0x4e5E774D3837bd9302B83CAD94a112575411F07B',
+    '0x3C8075380217Eb85d4109226406cACda4c3BdB75',
+    '0x9b64BE0ec5a334968b37BbD687EaDbc757DA6875',
+    '0x3d821c7399ea97dA12e55727A378B4F5eb0289F8',
+    '0xAf76F079631Ca0f3C090A98A2987b8D232C26447',
+    '0xD47620F7904686E1B61bC2b16AD4Ef333623C3A4',
+    '0xeC21628Fd017bbB0c751CB14BCbC6b81EB437241',
+    '0x324D14607bB6853Fb0E15a02C80D59045714520F',
+    '0x5F6831BDA9d0483054EB50A48966d65D2b156C7b',
+    '0x6e28e5AF24dA4Cb7Bd669332244271eDce95f747',
+    '0x5Ed4f15045aCfDd0392a7A0706503ae1aA2B82dc',
+    '0x5646b6E8a0856766f0ace6D008f6919ad42Df82c',
+    '0x025e6bEc8c34dBb38120840610004e8968790b7e',
+    '0xB441A6A51BF69366d903c072D3B5594Ca02Ff1e0',
+    '0x362EE93C00D8Bffc1e0284116d7CC9513cdE959F',
+    '0x272d6bd040c2B8454f4f6F43115758fBe318ee2c',
+    '0x80e358CBB533F6c8d07d2dc5604a55aA925A95df',
+    '0xFCB42091aCBEf803e333A1b5C7079A43b0CFDE59',
+    '0xaAF5a641256131484D00ACC565D84683025f2444',
+    '0x18050B80d427B373C96AB24B78996310C0733c13',
+    '0x4e5963c92bFE4De6f319b0859B2Efcf95267E3Ae',
+  ],
+  testnet: ['0xF886672205399c186638abfA9Dc155dEe9CBBD2e'],
+  localnet: [],
+}
+
+export const defaultPredeployConfig: PredeployConfig = {
+  highStakeValidators: initialHighStakeValidators,
+}
+
+const EnvironmentAddress = '0x0000000000000000000000000000000000001000'
+const StakeManagerAddress = '0x0000000000000000000000000000000000001001'
+const HighStakesAddress = '0x520000000000000000000000000000000000002D'
+const CandidateValidatorManagerAddress = '0x520000000000000000000000000000000000002e'
+
+const definePredeploys = <T extends { [name: string]: Predeploy }>(predeploys: T): T => predeploys
+
+/**
+ * Manifest of the contracts embedded in the genesis.
+ * The Environment and the StakeManager are initialized by the genesis validator,
+ * so they are deployed without any setup.
+ */
+export const Predeploys = definePredeploys({
+  Environment: {
+    address: EnvironmentAddress,
+    artifact: 'Environment',
+  },
+  StakeManager: {
+    address: StakeManagerAddress,
+    artifact: 'StakeManager',
+  },
+  CandidateValidatorManagerHighStakes: {
+    address: HighStakesAddress,
+    artifact: 'AddressList',
+    setup: [
+      { method: 'adds', args: (network, config) => [config.highStakeValidators[network]] },
+      { method: 'transferOwnership', args: () => [CandidateValidatorManagerAddress] },
+    ],
+    storageKeys: (network, config) => ({ _ids: config.highStakeValidators[network] }),
+  },
+  CandidateValidatorManager: {
+    address: CandidateValidatorManagerAddress,
+    artifact: 'CandidateValidatorManager',
+    args: () => [EnvironmentAddress, StakeManagerAddress, HighStakesAddress],
+    immutables: () => ({
+      environment: EnvironmentAddress,
+      stakeManager: StakeManagerAddress,
+      highStakes: HighStakesAddress,
+    }),
+  },
+  SlashIndicator: {
+    address: '0x0000000000000000000000000000000000001003',
+    artifact: 'SlashIndicator',
+    args: (network) => [EnvironmentAddress, StakeManagerAddress, Chains[network].chainID],
+    immutables: (network) => ({
+      environment: EnvironmentAddress,
+      stakeManager: StakeManagerAddress,
+      chainId: Chains[network].chainID,
+    }),
+  },
+  WOAS: {
+    address: '0x5200000000000000000000000000000000000001',
+    artifact: 'WOAS',
+  },
+  SOAS: {
+    address: '0x5200000000000000000000000000000000000002',
+    artifact: 'SOAS',
+    args: () => [[StakeManagerAddress]],
+  },
+  LOAS: {
+    address: '0x5200000000000000000000000000000000000023',
+    artifact: 'LOAS',
+  },
+  OASMultiTransfer: {
+    address: '0x520000000000000000000000000000000000002c',
+    artifact: 'OASMultiTransfer',
+  },
+})
+
+export type PredeployName = keyof typeof Predeploys
+
+export const PredeployContracts = Object.fromEntries(
+  Object.entries(Predeploys).map(([name, { address }]) => [name, address]),
+) as { [name in PredeployName]: string }
+
+/**
+ * Returns the predeploy contract connected to the first signer.
+ */
+export const getPredeployContract = (hre: HRE, name: PredeployName): Promise<Contract> =>
+  hre.ethers.getContractAt(Predeploys[name].artifact, Predeploys[name].address)
+
+/**
+ * Deploy the predeploy contract for the network as the manifest describes,
+ * assert the immutable variables and send the setup calls.
+ * @returns Deployed contract and hashes of the deployment and setup transactions.
+ */
+export const deployPredeploy = async (
+  hre: HRE,
+  name: PredeployName,
+  network: Networks,
+  config = defaultPredeployConfig,
+): Promise<{ contract: Contract; txs: string[] }> => {
+  const predeploy: Predeploy = Predeploys[name]
+
+  const factory = await hre.ethers.getContractFactory(predeploy.artifact)
+  const contract = await factory.deploy(...(predeploy.args?.(network, config) ?? []))
+  await contract.deployed()
+  const txs = [contract.deployTransaction.hash]
+
+  for (const [getter, expect] of Object.entries(predeploy.immutables?.(network, config) ?? {})) {
+    await assertImmutableVariable(contract[getter], expect)
+  }
+
+  for (const { method, args } of predeploy.setup ?? []) {
+    const tx = await contract[method](...args(network, config))
+    txs.push(tx.hash)
+  }
+
+  return { contract, txs }
+}
+
+/**
+ * Snapshot the storage of the deployed predeploy contract.
+ */
+export const snapshotPredeployStorage = async (
+  hre: HRE,
+  strategy: StorageStrategy,
+  name: PredeployName,
+  network: Networks,
+  deployed: { contract: Contract; txs: string[] },
+  config = defaultPredeployConfig,
+): Promise<Storage> => {
+  const predeploy: Predeploy = Predeploys[name]
+  return snapshotStorage(hre, strategy, {
+    address: deployed.contract.address,
+    name: predeploy.artifact,
+    txs: deployed.txs,
+    keys: predeploy.storageKeys?.(network, config),
+  })
+}
@@ -0,0 +1,258 @@
+import { task } from 'hardhat/config'
+import { BigNumber, Contract, constants, utils } from 'ethers'
+
+import { paginate } from './lib'
+import { Row, addFormatParam, formatRows, parseFormat } from './format'
+import { getPredeployContract } from './predeploys'
+import { parseEpochs } from './validator'
+import {
+  EnvironmentConstants,
+  EnvironmentValue,
+  fetchEnvironmentValues,
+  findValueByEpoch,
+  readEnvironmentValues,
+} from './environment'
+
+// Same as the `Constants` library.
+export const RewardConstants = {
+  REWARD_PRECISION: 25,
+  SECONDS_PER_YEAR: 60 * 60 * 24 * 365,
+  // Epoch the fixed reward rate of `Validator.getRewards` starts from.
+  FIXED_REWARD_EPOCH: 73,
+}
+
+/**
+ * State of the validator in the epoch, the inputs of `Validator.getRewards`.
+ */
+export type ValidatorEpoch = {
+  epoch: number
+  env: EnvironmentValue
+  totalStake: BigNumber
+  blocks: number
+  slashes: number
+  active: boolean
+  jailed: boolean
+}
+
+export type EpochRewards = {
+  epoch: number
+  totalStake: BigNumber
+  rewards: BigNumber
+  commissions: BigNumber
+  stakerRewards: BigNumber
+}
+
+/**
+ * Same as `Math.percent`.
+ */
+export const percent = (
+  numerator: BigNumber | number,
+  denominator: BigNumber | number,
+  precision = RewardConstants.REWARD_PRECISION,
+): BigNumber =>
+  BigNumber.from(numerator)
+    .mul(BigNumber.from(10).pow(precision + 1))
+    .div(denominator)
+    .add(5)
+    .div(10)
+
+/**
+ * Same as `Math.share`.
+ */
+export const share = (
+  principal: BigNumber,
+  numerator: BigNumber | number,
+  denominator: BigNumber | number,
+  precision = RewardConstants.REWARD_PRECISION,
+): BigNumber => principal.mul(percent(numerator, denominator, precision)).div(BigNumber.from(10).pow(precision))
+
+/**
+ * Same as `Validator.getRewards`, the rewards of the validator including the commissions.
+ */
+export const getValidatorRewards = (v: ValidatorEpoch): BigNumber => {
+  const { env, totalStake } = v
+  const precision = BigNumber.from(10).pow(RewardConstants.REWARD_PRECISION)
+  if (!v.active || v.jailed) return BigNumber.from(0)
+
+  let rewards: BigNumber
+  if (v.epoch >= RewardConstants.FIXED_REWARD_EPOCH) {
+    if (totalStake.lt(env.validatorThreshold)) return BigNumber.from(0)
+    rewards = totalStake.mul(2612).div(1e7)
+  } else {
+    if (totalStake.isZero()) return BigNumber.from(0)
+
+    rewards = totalStake.mul(percent(env.rewardRate, EnvironmentConstants.MAX_REWARD_RATE)).div(precision)
+    if (rewards.isZero()) return rewards
+
+    rewards = rewards.mul(percent(env.blockPeriod * env.epochPeriod, RewardConstants.SECONDS_PER_YEAR)).div(precision)
+  }
+
+  if (v.slashes > 0) rewards = share(rewards, v.blocks - v.slashes, v.blocks)
+  return rewards
+}
+
+/**
+ * Same as the per epoch amount of `Validator.getCommissions`.
+ */
+export const getValidatorCommissions = (v: ValidatorEpoch): BigNumber => {
+  const rewards = getValidatorRewards(v)
+  if (rewards.isZero() || v.env.commissionRate === 0) return BigNumber.from(0)
+  return share(rewards, v.env.commissionRate, EnvironmentConstants.MAX_COMMISSION_RATE)
+}
+
+/**
+ * Same as the per epoch amount of `Staker.getRewards`.
+ * @param stake Total stake of all tokens the staker has in the validator.
+ */
+export const getStakerRewards = (v: ValidatorEpoch, stake: BigNumber): BigNumber => {
+  if (stake.isZero()) return BigNumber.from(0)
+  const rewards = getValidatorRewards(v)
+  if (rewards.isZero()) return rewards
+  const withoutCommissions = rewards.sub(getValidatorCommissions(v))
+  return share(withoutCommissions, stake, v.totalStake)
+}
+
+/**
+ * Returns the rewards of the validator and the staker per epoch.
+ * @param stakes Stake of the staker per epoch, in the same order as the validator epochs.
+ */
+export const simulateRewards = (validatorEpochs: ValidatorEpoch[], stakes: BigNumber[] = []): EpochRewards[] =>
+  validatorEpochs.map((v, i) => ({
+    epoch: v.epoch,
+    totalStake: v.totalStake,
+    rewards: getValidatorRewards(v),
+    commissions: getValidatorCommissions(v),
+    stakerRewards: getStakerRewards(v, stakes[i] ?? BigNumber.from(0)),
+  }))
+
+/**
+ * Returns the annualized rate of the rewards to the principal, such as `0.1` for 10%.
+ * @param epochs Number of epochs the rewards were earned in.
+ */
+export const annualize = (rewards: BigNumber, principal: BigNumber, epochs: number, env: EnvironmentValue): number => {
+  if (principal.isZero() || epochs === 0) return 0
+  const epochsPerYear = RewardConstants.SECONDS_PER_YEAR / (env.blockPeriod * env.epochPeriod)
+  const rate = Number(utils.formatEther(rewards.mul(constants.WeiPerEther).div(principal)))
+  return (rate / epochs) * epochsPerYear
+}
+
+/**
+ * Read the state of the validator in the epochs.
+ * @param stakeManager StakeManager contract.
+ * @param values Historic environment values sorted by the start epoch.
+ */
+export const fetchValidatorEpochs = async (
+  stakeManager: Contract,
+  values: EnvironmentValue[],
+  validator: string,
+  epochs: number[],
+): Promise<ValidatorEpoch[]> => {
+  const validatorEpochs: ValidatorEpoch[] = []
+  for (const epoch of epochs) {
+    const info = await stakeManager.getValidatorInfo(validator, epoch)
+    const { blocks, slashes } = await stakeManager.getBlockAndSlashes(validator, epoch)
+    validatorEpochs.push({
+      epoch,
+      env: findValueByEpoch(values, epoch),
+      totalStake: info.stakes,
+      blocks: blocks.toNumber(),
+      slashes: slashes.toNumber(),
+      active: info.active,
+      jailed: info.jailed,
+    })
+  }
+  return validatorEpochs
+}
+
+/**
+ * Read the stake of all tokens the staker has in the validator, per epoch.
+ */
+export const fetchStakerStakes = async (
+  stakeManager: Contract,
+  staker: string,
+  validator: string,
+  epochs: number[],
+): Promise<BigNumber[]> => {
+  const stakes: BigNumber[] = []
+  for (const epoch of epochs) {
+    let stake = BigNumber.from(0)
+    for await (const { page } of paginate((cursor, howMany) =>
+      stakeManager.getStakerStakes(staker, epoch, cursor, howMany),
+    )) {
+      const i = page._validators.indexOf(validator)
+      if (i < 0) continue
+      stake = stake.add(page.oasStakes[i]).add(page.woasStakes[i]).add(page.soasStakes[i])
+    }
+    stakes.push(stake)
+  }
+  return stakes
+}
+
+addFormatParam(task('simulate-rewards', 'Project the rewards of the validator and the staker per epoch'))
+  .addOptionalParam('validator', 'Validator owner to read the stakes and slashes of')
+  .addOptionalParam('totalStake', 'Total stake of a hypothetical validator in OAS, instead of `--validator`')
+  .addOptionalParam('staker', 'Staker address to read the stakes of, requires `--validator`')
+  .addOptionalParam('stake', 'Stake of a hypothetical staker in OAS, instead of `--staker`')
+  .addOptionalParam('epochs', 'Epochs to simulate, such as `120-130`, defaults to the next epoch')
+  .addOptionalParam('history', 'JSON file exported by `env-history`, instead of fetching the values')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    if (!taskArgs.validator === !taskArgs.totalStake) {
+      throw new Error('Either `--validator` or `--total-stake` is required')
+    }
+    if (taskArgs.staker && !taskArgs.validator) throw new Error('`--staker` requires `--validator`')
+
+    const validator = taskArgs.validator && utils.getAddress(taskArgs.validator)
+    const environment = await getPredeployContract(hre, 'Environment')
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const values = taskArgs.history ? readEnvironmentValues(taskArgs.history) : await fetchEnvironmentValues(hre)
+    const epochs = taskArgs.epochs ? parseEpochs(taskArgs.epochs) : [(await environment.epoch()).toNumber() + 1]
+
+    // The hypothetical validator is always active and never slashed.
+    const validatorEpochs = validator
+      ? await fetchValidatorEpochs(stakeManager, values, validator, epochs)
+      : epochs.map((epoch) => ({
+          epoch,
+          env: findValueByEpoch(values, epoch),
+          totalStake: utils.parseEther(taskArgs.totalStake),
+          blocks: 0,
+          slashes: 0,
+          active: true,
+          jailed: false,
+        }))
+    const stakes = taskArgs.staker
+      ? await fetchStakerStakes(stakeManager, utils.getAddress(taskArgs.staker), validator, epochs)
+      : epochs.map(() => utils.parseEther(taskArgs.stake ?? '0'))
+
+    const results = simulateRewards(validatorEpochs, stakes)
+    const rows: Row[] = results.map((x, i) => ({
+      epoch: x.epoch,
+      totalStake: utils.formatEther(x.totalStake),
+      rewards: utils.formatEther(x.rewards),
+      commissions: utils.formatEther(x.commissions),
+      stake: utils.formatEther(stakes[i]),
+      stakerRewards: utils.formatEther(x.stakerRewards),
+    }))
+    console.log(formatRows(format, rows))
+
+    // Annualized by the environment value of the last epoch.
+    const env = validatorEpochs[validatorEpochs.length - 1].env
+    const sum = (xs: BigNumber[]) => xs.reduce((a, b) => a.add(b), BigNumber.from(0))
+    const rewards = sum(results.map((x) => x.rewards))
+    const commissions = sum(results.map((x) => x.commissions))
+    const stakerRewards = sum(results.map((x) => x.stakerRewards))
+    const averageStake = sum(validatorEpochs.map((x) => x.totalStake)).div(epochs.length)
+    const averageStakerStake = sum(stakes).div(epochs.length)
+
+    const apr = (rewards: BigNumber, principal: BigNumber) =>
+      (annualize(rewards, principal, epochs.length, env) * 100).toFixed(2) + '%'
+    console.log()
+    console.log(`Validator rewards: ${utils.formatEther(rewards)} OAS`)
+    console.log(`Commissions:       ${utils.formatEther(commissions)} OAS`)
+    console.log(`Staker rewards:    ${utils.formatEther(stakerRewards)} OAS`)
+    console.log(`Gross APR:         ${apr(rewards, averageStake)}`)
+    console.log(`Delegator APR:     ${apr(rewards.sub(commissions), averageStake)}`)
+    if (!averageStakerStake.isZero()) {
+      console.log(`Staker APR:        ${apr(stakerRewards, averageStakerStake)}`)
+    }
+  })
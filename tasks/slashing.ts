@@ -0,0 +1,243 @@
+import * as fs from 'fs'
+import * as http from 'http'
+import * as https from 'https'
+import { task } from 'hardhat/config'
+import { BigNumber, Contract, Event, utils } from 'ethers'
+
+import { EnvironmentValue, estimateSeconds, fetchEnvironmentValues, getEpochStartBlock } from './environment'
+import { getPredeployContract } from './predeploys'
+
+export type SlashingEventName =
+  | 'ValidatorSlashed'
+  | 'ValidatorJailed'
+  | 'DoubleSignEvidenceSubmitted'
+  | 'FinalityViolationEvidenceSubmitted'
+
+/**
+ * Event resolved to the validator, one JSON line of the `watch-slashing` output.
+ */
+export type SlashingEvent = {
+  event: SlashingEventName
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+  validator: string
+  operator: string
+  // ValidatorJailed, the validator is jailed up to the epoch and released at the start of the next epoch.
+  until?: number
+  releaseBlock?: number
+  releaseTime?: string
+  releaseTimeEstimated?: boolean
+  // DoubleSignEvidenceSubmitted
+  evidenceHeight?: number
+  // FinalityViolationEvidenceSubmitted
+  voteAddr?: string
+}
+
+export type SlashingContracts = {
+  stakeManager: Contract
+  slashIndicator: Contract
+}
+
+const StakeManagerEvents: SlashingEventName[] = ['ValidatorSlashed', 'ValidatorJailed']
+const SlashIndicatorEvents: SlashingEventName[] = ['DoubleSignEvidenceSubmitted', 'FinalityViolationEvidenceSubmitted']
+
+/**
+ * Returns the last processed block of the checkpoint file, undefined if the file does not exist yet.
+ */
+export const readCheckpoint = (path: string): number | undefined => {
+  if (!fs.existsSync(path)) return undefined
+  const { block } = JSON.parse(fs.readFileSync(path, 'utf-8'))
+  if (!Number.isInteger(block)) throw new Error(`Invalid checkpoint ${path}, \`block\` is not a number`)
+  return block
+}
+
+/**
+ * Write the last processed block, replacing the file at once so a crash never leaves it half written.
+ */
+export const writeCheckpoint = (path: string, block: number) => {
+  fs.writeFileSync(`${path}.tmp`, JSON.stringify({ block }) + '\n')
+  fs.renameSync(`${path}.tmp`, path)
+}
+
+/**
+ * Returns when the validator jailed up to the epoch is released.
+ * The time is of the block if already mined, otherwise estimated from the latest block.
+ * @param values Historic values sorted by the start epoch.
+ */
+export const getReleaseTime = async (
+  contracts: SlashingContracts,
+  values: EnvironmentValue[],
+  until: number,
+): Promise<{ releaseBlock: number; releaseTime: string; releaseTimeEstimated: boolean }> => {
+  const provider = contracts.stakeManager.provider
+  const releaseBlock = getEpochStartBlock(values, until + 1)
+  const latest = await provider.getBlock('latest')
+
+  const estimated = releaseBlock > latest.number
+  const timestamp = estimated
+    ? latest.timestamp + estimateSeconds(values, latest.number, releaseBlock)
+    : (await provider.getBlock(releaseBlock)).timestamp
+  return { releaseBlock, releaseTime: new Date(timestamp * 1000).toISOString(), releaseTimeEstimated: estimated }
+}
+
+/**
+ * Resolve the event to the validator owner and the operator, as of the block the event is emitted in.
+ */
+export const toSlashingEvent = async (
+  contracts: SlashingContracts,
+  values: EnvironmentValue[],
+  event: Event,
+): Promise<SlashingEvent> => {
+  const { stakeManager } = contracts
+  const blockTag = event.blockNumber
+  const name = event.event as SlashingEventName
+  const args = event.args!
+
+  let validator: string
+  const details: Partial<SlashingEvent> = {}
+  if (name === 'DoubleSignEvidenceSubmitted') {
+    validator = await stakeManager.operatorToOwner(args.signer, { blockTag })
+    details.evidenceHeight = BigNumber.from(args.evidenceHeight).toNumber()
+  } else if (name === 'FinalityViolationEvidenceSubmitted') {
+    validator = await stakeManager.blsPublicKeyToOwner(utils.hexDataSlice(args.voteAddr, 0, 32), { blockTag })
+    details.voteAddr = args.voteAddr
+  } else {
+    validator = args.validator
+  }
+  if (name === 'ValidatorJailed') {
+    details.until = BigNumber.from(args.until).toNumber()
+    Object.assign(details, await getReleaseTime(contracts, values, details.until))
+  }
+
+  const { operator } = await stakeManager.getValidatorInfo(validator, 0, { blockTag })
+  return {
+    event: name,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+    validator,
+    operator,
+    ...details,
+  }
+}
+
+/**
+ * Returns the slashing and jailing events between the blocks, inclusive, in the order they are emitted.
+ * @param values Historic values sorted by the start epoch.
+ */
+export const fetchSlashingEvents = async (
+  contracts: SlashingContracts,
+  values: EnvironmentValue[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<SlashingEvent[]> => {
+  const events: Event[] = []
+  for (const [contract, names] of [
+    [contracts.stakeManager, StakeManagerEvents],
+    [contracts.slashIndicator, SlashIndicatorEvents],
+  ] as const) {
+    for (const name of names) events.push(...(await contract.queryFilter(contract.filters[name](), fromBlock, toBlock)))
+  }
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  const resolved: SlashingEvent[] = []
+  for (const event of events) resolved.push(await toSlashingEvent(contracts, values, event))
+  return resolved
+}
+
+/**
+ * POST the event as JSON to the webhook, throws unless the response is 2xx.
+ */
+export const postWebhook = (url: string, event: SlashingEvent): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const body = JSON.stringify(event)
+    const request = (url.startsWith('https:') ? https : http).request(
+      url,
+      { method: 'POST', headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) } },
+      (res) => {
+        res.resume()
+        res.on('end', () => {
+          const status = res.statusCode ?? 0
+          if (status >= 200 && status < 300) resolve()
+          else reject(new Error(`Webhook ${url} responded ${status}`))
+        })
+      },
+    )
+    request.on('error', reject)
+    request.end(body)
+  })
+
+export type ProcessOptions = {
+  checkpoint?: string
+  webhook?: string
+  output?: (line: string) => void
+}
+
+/**
+ * Output the events between the blocks as JSON lines, POST them to the webhook and advance the checkpoint.
+ * The checkpoint is written only after all events are delivered, so the events are delivered at least once.
+ */
+export const processSlashingEvents = async (
+  contracts: SlashingContracts,
+  values: EnvironmentValue[],
+  fromBlock: number,
+  toBlock: number,
+  options: ProcessOptions = {},
+): Promise<SlashingEvent[]> => {
+  const output = options.output ?? console.log
+  const events = await fetchSlashingEvents(contracts, values, fromBlock, toBlock)
+  for (const event of events) {
+    output(JSON.stringify(event))
+    if (options.webhook) await postWebhook(options.webhook, event)
+  }
+  if (options.checkpoint) writeCheckpoint(options.checkpoint, toBlock)
+  return events
+}
+
+task('watch-slashing', 'Output the slashing and jailing events as JSON lines, polling for the new blocks')
+  .addOptionalParam('checkpoint', 'JSON file of the last processed block, to resume from after a restart')
+  .addOptionalParam('fromBlock', 'Block to start from if there is no checkpoint, defaults to the latest block')
+  .addOptionalParam('webhook', 'URL to POST each event to as JSON')
+  .addOptionalParam('confirmations', 'Number of blocks to wait for before processing a block', '2')
+  .addOptionalParam('interval', 'Seconds between polling', '15')
+  .addOptionalParam('batch', 'Maximum number of blocks to query the events at once', '1000')
+  .addFlag('once', 'Exit after processing up to the latest confirmed block')
+  .setAction(async (taskArgs, hre) => {
+    const contracts = {
+      stakeManager: await getPredeployContract(hre, 'StakeManager'),
+      slashIndicator: await getPredeployContract(hre, 'SlashIndicator'),
+    }
+    const confirmations = Number(taskArgs.confirmations)
+    const batch = Number(taskArgs.batch)
+    const options = { checkpoint: taskArgs.checkpoint, webhook: taskArgs.webhook }
+
+    const checkpoint = taskArgs.checkpoint ? readCheckpoint(taskArgs.checkpoint) : undefined
+    let next =
+      checkpoint !== undefined
+        ? checkpoint + 1
+        : taskArgs.fromBlock !== undefined
+        ? Number(taskArgs.fromBlock)
+        : await hre.ethers.provider.getBlockNumber()
+    console.error(`Watching from block ${next}`)
+
+    while (true) {
+      try {
+        const head = (await hre.ethers.provider.getBlockNumber()) - confirmations
+        if (next <= head) {
+          // The values are fetched every round, as they may be updated while watching.
+          const values = await fetchEnvironmentValues(hre)
+          for (; next <= head; next += batch) {
+            await processSlashingEvents(contracts, values, next, Math.min(next + batch - 1, head), options)
+          }
+          next = head + 1
+        }
+      } catch (err) {
+        // `next` is advanced only past the delivered batches, so the failed one is processed again.
+        if (taskArgs.once) throw err
+        console.error(`Failed to process from block ${next}, retrying on the next poll: ${(err as Error).message}`)
+      }
+      if (taskArgs.once) return
+      await new Promise((resolve) => setTimeout(resolve, Number(taskArgs.interval) * 1000))
+    }
+  })
@@ -0,0 +1,96 @@
+import * as fs from 'fs'
+import { task } from 'hardhat/config'
+import type { Contract } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { Networks, Chains, paginate } from './lib'
+import { getPredeployContract } from './predeploys'
+import { ValidatorSets, assertValidatorSet } from './validators'
+
+export type HighStakeSnapshot = {
+  network: Networks
+  blockNumber: number
+  epoch: number
+  validators: string[]
+}
+
+/**
+ * Returns the network name of the connected chain.
+ */
+export const getNetworkName = async (hre: HRE): Promise<Networks> => {
+  const { chainId } = await hre.ethers.provider.getNetwork()
+  const network = (Object.keys(Chains) as Networks[]).find((x) => Chains[x].chainID === chainId)
+  if (!network) throw new Error(`Unknown chain id ${chainId}`)
+  return network
+}
+
+/**
+ * Returns the validator owners whose stake is above the `validatorThreshold`
+ * at the current or the next epoch, as `CandidateValidatorManager._updateHighStakes` does.
+ */
+export const getHighStakeValidators = async (
+  environment: Contract,
+  stakeManager: Contract,
+  blockNumber: number,
+  howMany = 100,
+): Promise<{ epoch: number; validators: string[] }> => {
+  const overrides = { blockTag: blockNumber }
+
+  const currEpoch = (await environment.epoch(overrides)).toNumber()
+  const nextEpoch = currEpoch + 1
+  const currThreshold = (await environment.findValue(currEpoch, overrides)).validatorThreshold
+  const nextThreshold = (await environment.findValue(nextEpoch, overrides)).validatorThreshold
+
+  const getStakes = stakeManager['getValidatorStakes(address,uint256)']
+  const validators: string[] = []
+  const pages = paginate((cursor, howMany) => stakeManager.getValidatorOwners(cursor, howMany, overrides), { howMany })
+  for await (const { page } of pages) {
+    for (const owner of page.owners as string[]) {
+      const enoughCurr = (await getStakes(owner, currEpoch, overrides)).gte(currThreshold)
+      const enoughNext = (await getStakes(owner, nextEpoch, overrides)).gte(nextThreshold)
+      if (enoughCurr || enoughNext) validators.push(owner)
+    }
+  }
+  return { epoch: currEpoch, validators }
+}
+
+/**
+ * Snapshot the high stake validators of the predeploy contracts at the block.
+ */
+export const snapshotHighStakes = async (
+  hre: HRE,
+  blockTag: string | number = 'latest',
+  howMany = 100,
+): Promise<HighStakeSnapshot> => {
+  const environment = await getPredeployContract(hre, 'Environment')
+  const stakeManager = await getPredeployContract(hre, 'StakeManager')
+
+  const block = await hre.ethers.provider.getBlock(blockTag)
+  const { epoch, validators } = await getHighStakeValidators(environment, stakeManager, block.number, howMany)
+
+  const network = await getNetworkName(hre)
+  return { network, blockNumber: block.number, epoch, validators: assertValidatorSet(network, validators) }
+}
+
+task('snapshot-high-stakes', 'Output the initial high stake validators from the live chain')
+  .addOptionalParam('blockTag', 'Block number or tag to snapshot', 'latest')
+  .addOptionalParam('howMany', 'Page size of the StakeManager calls', '100')
+  .addOptionalParam('output', 'Path to the validator sets file to be merged into, prints to stdout if omitted')
+  .setAction(async (taskArgs, hre) => {
+    const blockTag = /^\d+$/.test(taskArgs.blockTag) ? Number(taskArgs.blockTag) : taskArgs.blockTag
+    const snapshot = await snapshotHighStakes(hre, blockTag, Number(taskArgs.howMany))
+    const { network, blockNumber, epoch, validators } = snapshot
+    console.error(`${network}: ${validators.length} validators at block ${blockNumber} (epoch ${epoch})`)
+
+    if (!taskArgs.output) {
+      console.log(JSON.stringify({ [network]: validators }, null, 2))
+      return
+    }
+
+    // Keep the other networks in the file untouched.
+    const sets: Partial<ValidatorSets> = fs.existsSync(taskArgs.output)
+      ? JSON.parse(fs.readFileSync(taskArgs.output, 'utf-8'))
+      : {}
+    sets[network] = validators
+    fs.writeFileSync(taskArgs.output, JSON.stringify(sets, null, 2) + '\n')
+  })
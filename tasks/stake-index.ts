@@ -0,0 +1,385 @@
+import { task } from 'hardhat/config'
+import { BigNumber, Contract, utils } from 'ethers'
+import type Database from 'better-sqlite3'
+
+import { EnvironmentValue, fetchEnvironmentValues, getEpoch } from './environment'
+import { Row, addFormatParam, formatRows, parseFormat } from './format'
+import { RetryOptions, retry } from './lib'
+import { getPredeployContract } from './predeploys'
+import { tokenName } from './staker'
+
+export type StakeEventName =
+  | 'Staked'
+  | 'ReStaked'
+  | 'Unstaked'
+  | 'UnstakedV2'
+  | 'ClaimedRewards'
+  | 'ClaimedCommissions'
+  | 'ClaimedLockedUnstake'
+  | 'OperatorUpdated'
+  | 'BLSPublicKeyUpdated'
+
+/**
+ * Row of the `events` table. Amounts are in wei, and the fields not in the event are null.
+ */
+export type StakeEvent = {
+  blockNumber: number
+  logIndex: number
+  transactionHash: string
+  timestamp: number
+  epoch: number
+  event: StakeEventName
+  staker: string | null
+  validator: string | null
+  token: string | null
+  amount: string | null
+  // Index of the locked unstake, for `UnstakedV2` and `ClaimedLockedUnstake`.
+  lockedUnstake: number | null
+  // Previous and new operator or BLS public key.
+  oldValue: string | null
+  newValue: string | null
+}
+
+export type StakeBalance = {
+  staker: string
+  validator: string
+  token: string
+  amount: BigNumber
+}
+
+const StakeEvents: StakeEventName[] = [
+  'Staked',
+  'ReStaked',
+  'Unstaked',
+  'UnstakedV2',
+  'ClaimedRewards',
+  'ClaimedCommissions',
+  'ClaimedLockedUnstake',
+  'OperatorUpdated',
+  'BLSPublicKeyUpdated',
+]
+
+const Schema = `
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  epoch INTEGER NOT NULL,
+  event TEXT NOT NULL,
+  staker TEXT,
+  validator TEXT,
+  token TEXT,
+  amount TEXT,
+  locked_unstake INTEGER,
+  old_value TEXT,
+  new_value TEXT,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_staker ON events (staker, block_number, log_index);
+CREATE INDEX IF NOT EXISTS events_validator ON events (validator, block_number, log_index);
+CREATE TABLE IF NOT EXISTS state (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`
+
+const Columns = `
+  block_number AS blockNumber,
+  log_index AS logIndex,
+  transaction_hash AS transactionHash,
+  timestamp,
+  epoch,
+  event,
+  staker,
+  validator,
+  token,
+  amount,
+  locked_unstake AS lockedUnstake,
+  old_value AS oldValue,
+  new_value AS newValue
+`
+
+/**
+ * Open the database, creating the tables if not exist.
+ * Throws if the database is indexed from another StakeManager.
+ * @param readonly Open the existing database for the queries only, without creating or writing anything.
+ */
+export const openStakeIndex = (path: string, stakeManager: string, { readonly = false } = {}): Database.Database => {
+  // Loaded on use, so the other tasks run without the native module built.
+  const Sqlite: typeof Database = require('better-sqlite3')
+  const db = new Sqlite(path, readonly ? { fileMustExist: true, readonly: true } : {})
+  if (!readonly) {
+    db.pragma('journal_mode = WAL')
+    db.exec(Schema)
+  }
+
+  const row = db.prepare("SELECT value FROM state WHERE key = 'stakeManager'").get() as { value: string } | undefined
+  if (row === undefined) {
+    if (!readonly) db.prepare("INSERT INTO state (key, value) VALUES ('stakeManager', ?)").run(stakeManager)
+  } else if (row.value !== stakeManager) {
+    db.close()
+    throw new Error(`${path} is indexed from the StakeManager ${row.value}, not ${stakeManager}`)
+  }
+  return db
+}
+
+/**
+ * Returns the last block indexed, undefined if nothing is indexed yet.
+ */
+export const getLastIndexedBlock = (db: Database.Database): number | undefined => {
+  const row = db.prepare("SELECT value FROM state WHERE key = 'lastBlock'").get() as { value: string } | undefined
+  return row && Number(row.value)
+}
+
+/**
+ * Returns the events between the blocks, inclusive, by one `eth_getLogs`.
+ * The token and the amount of the locked unstake are read from the StakeManager, as the events have only the index.
+ * @param values Historic values sorted by the start epoch.
+ */
+export const fetchStakeEvents = async (
+  stakeManager: Contract,
+  values: EnvironmentValue[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<StakeEvent[]> => {
+  const iface = stakeManager.interface
+  const logs = await stakeManager.provider.getLogs({
+    address: stakeManager.address,
+    topics: [StakeEvents.map((name) => iface.getEventTopic(name))],
+    fromBlock,
+    toBlock,
+  })
+
+  const timestamps = new Map<number, number>()
+  const events: StakeEvent[] = []
+  for (const log of logs) {
+    const { name, args } = iface.parseLog(log)
+    if (!timestamps.has(log.blockNumber)) {
+      timestamps.set(log.blockNumber, (await stakeManager.provider.getBlock(log.blockNumber)).timestamp)
+    }
+
+    const event: StakeEvent = {
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber)!,
+      epoch: getEpoch(values, log.blockNumber),
+      event: name as StakeEventName,
+      staker: args.staker ?? null,
+      validator: args.validator ?? null,
+      token: null,
+      amount: null,
+      lockedUnstake: null,
+      oldValue: null,
+      newValue: null,
+    }
+    switch (name) {
+      case 'Staked':
+      case 'Unstaked':
+        event.token = tokenName(args.token)
+        event.amount = args.amount.toString()
+        break
+      case 'ReStaked':
+      case 'ClaimedRewards':
+      case 'ClaimedCommissions':
+        event.token = 'OAS'
+        event.amount = args.amount.toString()
+        break
+      case 'UnstakedV2':
+      case 'ClaimedLockedUnstake': {
+        event.lockedUnstake = args.lockedUnstake.toNumber()
+        const { token, amount } = await stakeManager.getLockedUnstake(args.staker, args.lockedUnstake, {
+          blockTag: log.blockNumber,
+        })
+        event.token = tokenName(token)
+        event.amount = amount.toString()
+        break
+      }
+      case 'OperatorUpdated':
+        event.oldValue = args.oldOperator
+        event.newValue = args.newOperator
+        break
+      case 'BLSPublicKeyUpdated':
+        event.oldValue = args.oldBLSPublicKey
+        event.newValue = args.newBLSPublicKey
+        break
+    }
+    events.push(event)
+  }
+  return events
+}
+
+/**
+ * Insert the events and advance the last indexed block at once.
+ * Inserting the same events again replaces them, so a range can be re-indexed.
+ */
+export const insertStakeEvents = (db: Database.Database, events: StakeEvent[], lastBlock: number) => {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO events VALUES (
+      @blockNumber, @logIndex, @transactionHash, @timestamp, @epoch, @event, @staker, @validator, @token, @amount,
+      @lockedUnstake, @oldValue, @newValue
+    )
+  `)
+  // `ClaimedLockedUnstake` has no validator, which is of the `UnstakedV2` that locked it.
+  const lockedBy = db.prepare(
+    "SELECT validator FROM events WHERE event = 'UnstakedV2' AND staker = ? AND locked_unstake = ?",
+  )
+  const setLastBlock = db.prepare("INSERT OR REPLACE INTO state (key, value) VALUES ('lastBlock', ?)")
+
+  db.transaction(() => {
+    for (const event of events) {
+      if (event.event === 'ClaimedLockedUnstake') {
+        const row = lockedBy.get(event.staker, event.lockedUnstake) as { validator: string } | undefined
+        event.validator = row?.validator ?? null
+      }
+      insert.run(event)
+    }
+    setLastBlock.run(String(lastBlock))
+  })()
+}
+
+export type IndexOptions = RetryOptions & {
+  // Number of blocks to fetch the events of at once
+  chunk?: number
+  onChunk?: (fromBlock: number, toBlock: number, events: StakeEvent[]) => void
+}
+
+/**
+ * Index the events between the blocks, inclusive, in chunks.
+ * Each chunk is retried on failure and committed with the last block, so the indexing can resume from it.
+ * @returns Number of the events indexed.
+ */
+export const indexStakeEvents = async (
+  db: Database.Database,
+  stakeManager: Contract,
+  values: EnvironmentValue[],
+  fromBlock: number,
+  toBlock: number,
+  { chunk = 2000, onChunk, ...retryOptions }: IndexOptions = {},
+): Promise<number> => {
+  let count = 0
+  for (let from = fromBlock; from <= toBlock; from += chunk) {
+    const to = Math.min(from + chunk - 1, toBlock)
+    const events = await retry(() => fetchStakeEvents(stakeManager, values, from, to), retryOptions)
+    insertStakeEvents(db, events, to)
+    onChunk?.(from, to, events)
+    count += events.length
+  }
+  return count
+}
+
+/**
+ * Returns the events of the staker in the order they are emitted.
+ * @param validator Only the events of the validator if given.
+ */
+export const getStakerHistory = (db: Database.Database, staker: string, validator?: string): StakeEvent[] => {
+  const where = validator ? 'staker = ? AND validator = ?' : 'staker = ?'
+  return db
+    .prepare(`SELECT ${Columns} FROM events WHERE ${where} ORDER BY block_number, log_index`)
+    .all(...[staker, validator].filter((x) => x !== undefined)) as StakeEvent[]
+}
+
+/**
+ * Returns the events of the validator, the stakes to it, the commissions and the updates of the keys,
+ * in the order they are emitted.
+ */
+export const getValidatorHistory = (db: Database.Database, validator: string): StakeEvent[] =>
+  db
+    .prepare(`SELECT ${Columns} FROM events WHERE validator = ? ORDER BY block_number, log_index`)
+    .all(validator) as StakeEvent[]
+
+/**
+ * Returns the stakes summed from the indexed events, including the ones not effective until the next epoch.
+ */
+export const getStakeBalances = (
+  db: Database.Database,
+  { staker, validator }: { staker?: string; validator?: string } = {},
+): StakeBalance[] => {
+  const conditions = ["event IN ('Staked', 'ReStaked', 'Unstaked', 'UnstakedV2')"]
+  if (staker) conditions.push('staker = @staker')
+  if (validator) conditions.push('validator = @validator')
+  const events = db
+    .prepare(`SELECT ${Columns} FROM events WHERE ${conditions.join(' AND ')} ORDER BY block_number, log_index`)
+    .all({ staker, validator }) as StakeEvent[]
+
+  // Summed by BigNumber, as the amounts in wei overflow the integers of SQLite.
+  const balances = new Map<string, StakeBalance>()
+  for (const event of events) {
+    const key = `${event.staker}:${event.validator}:${event.token}`
+    const balance = balances.get(key) ?? {
+      staker: event.staker!,
+      validator: event.validator!,
+      token: event.token!,
+      amount: BigNumber.from(0),
+    }
+    const amount = BigNumber.from(event.amount)
+    balance.amount = event.event.startsWith('Unstaked') ? balance.amount.sub(amount) : balance.amount.add(amount)
+    balances.set(key, balance)
+  }
+  return [...balances.values()]
+}
+
+task('index-stake-events', 'Index the events of StakeManager into the SQLite database')
+  .addParam('database', 'SQLite database file')
+  .addOptionalParam('fromBlock', 'Block to start from, defaults to the block after the last indexed block')
+  .addOptionalParam('toBlock', 'Block to index up to, defaults to the latest confirmed block')
+  .addOptionalParam('chunk', 'Number of blocks to fetch the events of at once', '2000')
+  .addOptionalParam('retries', 'Number of retries of a failed chunk', '3')
+  .addOptionalParam('confirmations', 'Number of blocks to wait for before indexing a block', '2')
+  .addOptionalParam('interval', 'Seconds between polling with `--watch`', '15')
+  .addFlag('watch', 'Keep indexing the new blocks')
+  .setAction(async (taskArgs, hre) => {
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const db = openStakeIndex(taskArgs.database, stakeManager.address)
+    const options: IndexOptions = {
+      chunk: Number(taskArgs.chunk),
+      retries: Number(taskArgs.retries),
+      onChunk: (from, to, events) => console.error(`Indexed blocks ${from}-${to}, ${events.length} events`),
+    }
+
+    const last = getLastIndexedBlock(db)
+    let next = taskArgs.fromBlock !== undefined ? Number(taskArgs.fromBlock) : last !== undefined ? last + 1 : 0
+    while (true) {
+      const latest = (await hre.ethers.provider.getBlockNumber()) - Number(taskArgs.confirmations)
+      const toBlock = taskArgs.toBlock !== undefined ? Number(taskArgs.toBlock) : latest
+      if (next <= toBlock) {
+        // Fetched every round, as the values may be updated while watching.
+        const values = await fetchEnvironmentValues(hre)
+        const count = await indexStakeEvents(db, stakeManager, values, next, toBlock, options)
+        console.log(`Indexed ${count} events of blocks ${next}-${toBlock}`)
+        next = toBlock + 1
+      }
+      if (!taskArgs.watch || taskArgs.toBlock !== undefined) break
+      await new Promise((resolve) => setTimeout(resolve, Number(taskArgs.interval) * 1000))
+    }
+    db.close()
+  })
+
+addFormatParam(task('stake-history', 'Output the indexed events or the stakes of the staker or the validator'))
+  .addParam('database', 'SQLite database file indexed by `index-stake-events`')
+  .addOptionalParam('staker', 'Staker address')
+  .addOptionalParam('validator', 'Validator owner address')
+  .addFlag('balances', 'Output the stakes summed from the events instead of the events')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    if (!taskArgs.staker && !taskArgs.validator) throw new Error('Either `--staker` or `--validator` is required')
+    const staker = taskArgs.staker && utils.getAddress(taskArgs.staker)
+    const validator = taskArgs.validator && utils.getAddress(taskArgs.validator)
+
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const db = openStakeIndex(taskArgs.database, stakeManager.address, { readonly: true })
+    let rows: Row[]
+    if (taskArgs.balances) {
+      rows = getStakeBalances(db, { staker, validator }).map((x) => ({ ...x, amount: utils.formatEther(x.amount) }))
+    } else {
+      const events = staker ? getStakerHistory(db, staker, validator) : getValidatorHistory(db, validator)
+      rows = events.map(({ amount, ...x }) => ({
+        ...Object.fromEntries(Object.entries(x).map(([key, value]) => [key, value ?? ''])),
+        time: new Date(x.timestamp * 1000).toISOString(),
+        amount: amount === null ? '' : utils.formatEther(amount),
+      }))
+    }
+    db.close()
+    console.log(formatRows(format, rows))
+  })
@@ -0,0 +1,116 @@
+import { task } from 'hardhat/config'
+import { BigNumber, Contract, utils } from 'ethers'
+
+import { paginate } from './lib'
+import { Row, addFormatParam, formatRows, parseFormat } from './format'
+import { getPredeployContract } from './predeploys'
+import { Tokens } from './staker'
+
+export type StakerReport = {
+  stakes: Row[]
+  lockedUnstakes: Row[]
+  total: Row
+}
+
+/**
+ * Returns the remaining time such as `9d 23h 59m`.
+ */
+export const formatDuration = (seconds: number): string => {
+  if (seconds <= 0) return '0m'
+  const minutes = Math.ceil(seconds / 60)
+  const d = Math.floor(minutes / 1440)
+  const h = Math.floor((minutes % 1440) / 60)
+  const m = minutes % 60
+  return [d && `${d}d`, h && `${h}h`, m && `${m}m`].filter(Boolean).join(' ')
+}
+
+/**
+ * Returns the stakes, pending rewards and locked unstakes of the stakers.
+ * Time remaining of the locked unstakes is measured from the timestamp of the latest block.
+ */
+export const getStakerReport = async (stakeManager: Contract, stakers: string[], epoch = 0): Promise<StakerReport> => {
+  const { timestamp } = await stakeManager.provider.getBlock('latest')
+
+  const total = { OAS: BigNumber.from(0), WOAS: BigNumber.from(0), SOAS: BigNumber.from(0), rewards: BigNumber.from(0) }
+  const locked = { OAS: BigNumber.from(0), WOAS: BigNumber.from(0), SOAS: BigNumber.from(0) }
+  const report: StakerReport = { stakes: [], lockedUnstakes: [], total: {} }
+
+  for (const staker of stakers) {
+    const stakes = paginate((cursor, howMany) => stakeManager.getStakerStakes(staker, epoch, cursor, howMany))
+    for await (const { page } of stakes) {
+      const { _validators, oasStakes, woasStakes, soasStakes } = page
+      for (let i = 0; i < _validators.length; i++) {
+        const rewards: BigNumber = await stakeManager.getRewards(staker, _validators[i], 0)
+        if ([oasStakes[i], woasStakes[i], soasStakes[i], rewards].every((x: BigNumber) => x.isZero())) continue
+
+        report.stakes.push({
+          staker,
+          validator: _validators[i],
+          OAS: utils.formatEther(oasStakes[i]),
+          WOAS: utils.formatEther(woasStakes[i]),
+          SOAS: utils.formatEther(soasStakes[i]),
+          rewards: utils.formatEther(rewards),
+        })
+        total.OAS = total.OAS.add(oasStakes[i])
+        total.WOAS = total.WOAS.add(woasStakes[i])
+        total.SOAS = total.SOAS.add(soasStakes[i])
+        total.rewards = total.rewards.add(rewards)
+      }
+    }
+
+    const lockedUnstakes = paginate((cursor, howMany) => stakeManager.getLockedUnstakes(staker, cursor, howMany))
+    for await (const { cursor, page } of lockedUnstakes) {
+      const { tokens, amounts, unlockTimes, claimable } = page
+      for (let i = 0; i < tokens.length; i++) {
+        // Claimed unstakes are left in the list with zero unlock time.
+        const unlockTime = unlockTimes[i].toNumber()
+        if (unlockTime === 0) continue
+
+        const token = Object.keys(Tokens)[tokens[i]] as keyof typeof locked
+        report.lockedUnstakes.push({
+          staker,
+          index: cursor + i,
+          token,
+          amount: utils.formatEther(amounts[i]),
+          unlockTime: new Date(unlockTime * 1000).toISOString(),
+          remaining: formatDuration(unlockTime - timestamp),
+          claimable: claimable[i],
+        })
+        locked[token] = locked[token].add(amounts[i])
+      }
+    }
+  }
+
+  report.total = {
+    stakers: stakers.length,
+    OAS: utils.formatEther(total.OAS),
+    WOAS: utils.formatEther(total.WOAS),
+    SOAS: utils.formatEther(total.SOAS),
+    rewards: utils.formatEther(total.rewards),
+    lockedOAS: utils.formatEther(locked.OAS),
+    lockedWOAS: utils.formatEther(locked.WOAS),
+    lockedSOAS: utils.formatEther(locked.SOAS),
+  }
+  return report
+}
+
+addFormatParam(task('staker-report', 'Output the stakes, rewards and locked unstakes of the stakers'))
+  .addParam('stakers', 'Comma separated staker addresses')
+  .addOptionalParam('epoch', 'Epoch of the stakes, defaults to the current epoch', '0')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    const stakers = taskArgs.stakers.split(',').map((x: string) => utils.getAddress(x.trim()))
+
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const report = await getStakerReport(stakeManager, stakers, Number(taskArgs.epoch))
+    if (format === 'json') {
+      console.log(JSON.stringify(report, null, 2))
+      return
+    }
+
+    console.log(formatRows(format, report.stakes))
+    console.log()
+    console.log(formatRows(format, report.lockedUnstakes))
+    console.log()
+    console.log(formatRows(format, [report.total]))
+  })
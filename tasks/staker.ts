@@ -0,0 +1,171 @@
+import { task } from 'hardhat/config'
+import { BigNumber, utils } from 'ethers'
+import type { Contract, PayableOverrides } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { paginate, sendCall, simulateCall } from './lib'
+import { getPredeployContract } from './predeploys'
+
+// Values of the `Token.Type` enum.
+export const Tokens = { OAS: 0, WOAS: 1, SOAS: 2 } as const
+
+export type TokenName = keyof typeof Tokens
+
+export const parseToken = (value: string): TokenName => {
+  const name = value.toUpperCase()
+  if (!(name in Tokens)) throw new Error(`Unknown token \`${value}\`, expect one of ${Object.keys(Tokens).join('|')}`)
+  return name as TokenName
+}
+
+export const tokenName = (type: number): string => Object.keys(Tokens)[type] ?? `Unknown(${type})`
+
+const printStakerStakes = async (hre: HRE, label: string, stakeManager: Contract, staker: string) => {
+  const environment = await getPredeployContract(hre, 'Environment')
+  const epoch = (await environment.epoch()).toNumber()
+  const format = (x: BigNumber) => utils.formatEther(x).padStart(24)
+
+  console.log(`${label} (${staker}):`)
+  console.log(`  stakes at epoch ${epoch + 1}:`)
+  const stakes = paginate((cursor, howMany) => stakeManager.getStakerStakes(staker, epoch + 1, cursor, howMany))
+  for await (const { page } of stakes) {
+    const { _validators, oasStakes, woasStakes, soasStakes } = page
+    _validators.forEach((validator: string, i: number) => {
+      if (oasStakes[i].isZero() && woasStakes[i].isZero() && soasStakes[i].isZero()) return
+      console.log(
+        `    ${validator} OAS ${format(oasStakes[i])} WOAS ${format(woasStakes[i])} SOAS ${format(soasStakes[i])}`,
+      )
+    })
+  }
+
+  console.log(`  locked unstakes:`)
+  const lockedUnstakes = paginate((cursor, howMany) => stakeManager.getLockedUnstakes(staker, cursor, howMany))
+  for await (const { cursor, page } of lockedUnstakes) {
+    const { tokens, amounts, unlockTimes, claimable } = page
+    tokens.forEach((token: number, i: number) => {
+      const unlockTime = new Date(unlockTimes[i].toNumber() * 1000).toISOString()
+      const state = unlockTimes[i].isZero() ? 'claimed' : claimable[i] ? 'claimable' : `locked until ${unlockTime}`
+      console.log(`    #${cursor + i} ${tokenName(token).padEnd(4)} ${format(amounts[i])} ${state}`)
+    })
+  }
+}
+
+/**
+ * Call the StakeManager method from the first signer, printing the stakes before and after.
+ */
+const runStakerCall = async (
+  hre: HRE,
+  taskArgs: { confirmations: string; dryRun: boolean },
+  method: string,
+  args: any[],
+  overrides: PayableOverrides = {},
+) => {
+  const [signer] = await hre.ethers.getSigners()
+  const stakeManager = await getPredeployContract(hre, 'StakeManager')
+
+  console.log(`Signer address: ${signer.address}`)
+  await printStakerStakes(hre, 'Before', stakeManager, signer.address)
+
+  if (taskArgs.dryRun) {
+    await simulateCall(hre, stakeManager, method, args, signer.address, overrides)
+    console.log(`${method} would succeed`)
+    return
+  }
+
+  const receipt = await sendCall(hre, stakeManager, method, args, Number(taskArgs.confirmations), overrides)
+  console.log(`${method} confirmed in block ${receipt.blockNumber}: ${receipt.transactionHash}`)
+
+  await printStakerStakes(hre, 'After', stakeManager, signer.address)
+}
+
+/**
+ * Approve the StakeManager to spend the WOAS or SOAS if the allowance is short.
+ * The approval is exactly the amount regardless of the existing allowance, as `approve` overwrites it
+ * and the stake spends the amount at once, so no allowance is left over after the stake.
+ * @returns Whether the allowance was short.
+ */
+export const approveIfShort = async (
+  hre: HRE,
+  taskArgs: { confirmations: string; dryRun: boolean },
+  token: TokenName,
+  amount: BigNumber,
+): Promise<boolean> => {
+  if (token === 'OAS') return false
+
+  const [signer] = await hre.ethers.getSigners()
+  const stakeManager = await getPredeployContract(hre, 'StakeManager')
+  const erc20 = await getPredeployContract(hre, token)
+
+  const allowance: BigNumber = await erc20.allowance(signer.address, stakeManager.address)
+  if (allowance.gte(amount)) return false
+
+  console.log(`Approving ${utils.formatEther(amount)} ${token} (allowance ${utils.formatEther(allowance)})`)
+  if (taskArgs.dryRun) return true
+
+  const receipt = await sendCall(hre, erc20, 'approve', [stakeManager.address, amount], Number(taskArgs.confirmations))
+  console.log(`approve confirmed in block ${receipt.blockNumber}: ${receipt.transactionHash}`)
+  return true
+}
+
+const stakerTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam('confirmations', 'Number of blocks to wait for', '2')
+    .addFlag('dryRun', 'Simulate the call without sending the transaction')
+
+stakerTask('stake', 'Call stake function of StakeManager')
+  .addParam('validator', 'Validator owner to stake to')
+  .addParam('token', 'Token to stake, OAS|WOAS|SOAS')
+  .addParam('amount', 'Amount to stake in OAS, such as `10000.5`')
+  .setAction(async (taskArgs, hre) => {
+    const token = parseToken(taskArgs.token)
+    const amount = utils.parseEther(taskArgs.amount)
+    const args = [utils.getAddress(taskArgs.validator), Tokens[token], amount]
+
+    if ((await approveIfShort(hre, taskArgs, token, amount)) && taskArgs.dryRun) {
+      // The simulation would revert without the approval.
+      console.log(`stake is not simulated until the approval is sent`)
+      return
+    }
+    await runStakerCall(hre, taskArgs, 'stake', args, token === 'OAS' ? { value: amount } : {})
+  })
+
+stakerTask('unstake-v2', 'Call unstakeV2 function of StakeManager')
+  .addParam('validator', 'Validator owner to unstake from')
+  .addParam('token', 'Token to unstake, OAS|WOAS|SOAS')
+  .addParam('amount', 'Amount to unstake in OAS, such as `10000.5`')
+  .setAction(async (taskArgs, hre) => {
+    const token = parseToken(taskArgs.token)
+    const args = [utils.getAddress(taskArgs.validator), Tokens[token], utils.parseEther(taskArgs.amount)]
+    await runStakerCall(hre, taskArgs, 'unstakeV2', args)
+  })
+
+stakerTask('claim-locked-unstake', 'Call claimLockedUnstake function of StakeManager')
+  .addParam('index', 'Index of the locked unstake')
+  .setAction(async (taskArgs, hre) => {
+    await runStakerCall(hre, taskArgs, 'claimLockedUnstake', [taskArgs.index])
+  })
+
+stakerTask('claim-rewards', 'Call claimRewards function of StakeManager')
+  .addParam('validator', 'Validator owner to claim the rewards from')
+  .addOptionalParam('epochs', 'Number of epochs to claim, zero claims all', '0')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const validator = utils.getAddress(taskArgs.validator)
+
+    const rewards = await stakeManager.getRewards(signer.address, validator, taskArgs.epochs)
+    console.log(`Rewards to claim: ${utils.formatEther(rewards)} OAS`)
+    await runStakerCall(hre, taskArgs, 'claimRewards', [signer.address, validator, taskArgs.epochs])
+  })
+
+stakerTask('restake-rewards', 'Call restakeRewards function of StakeManager')
+  .addParam('validator', 'Validator owner to restake the rewards to')
+  .addOptionalParam('epochs', 'Number of epochs to restake, zero restakes all', '0')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const validator = utils.getAddress(taskArgs.validator)
+
+    const rewards = await stakeManager.getRewards(signer.address, validator, taskArgs.epochs)
+    console.log(`Rewards to restake: ${utils.formatEther(rewards)} OAS`)
+    await runStakerCall(hre, taskArgs, 'restakeRewards', [validator, taskArgs.epochs])
+  })
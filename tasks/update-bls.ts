@@ -1,41 +1,114 @@
 import { task } from 'hardhat/config'
+import type { Contract } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { simulateCall } from './lib'
+import {
+  assertBLSPublicKeyPoint,
+  assertBLSSignature,
+  getBLSChallenge,
+  getBLSPublicKey,
+  readBLSKeystore,
+  readBLSSecretKeyFile,
+} from './bls'
+import { getPredeployContract } from './predeploys'
 
-const StakeManagerAddress =  '0x0000000000000000000000000000000000001001'
 const BLS_KEY: string = process.env.BLS_KEY || '0x'
+const BLS_KEYSTORE_PASSWORD: string = process.env.BLS_KEYSTORE_PASSWORD || ''
 
 export const assertBLSKey = (data: string): string => {
   if (!data.startsWith('0x')) {
-    throw new Error(`Account ${data} does not start with '0x'`);
+    throw new Error(`Account ${data} does not start with '0x'`)
   }
   if (data.length != 96 + 2) {
-    throw new Error(`Account ${data} is not 96 bytes long`);
+    throw new Error(`Account ${data} is not 96 bytes long`)
+  }
+  // Checked ahead of the curve, which rejects the all-zero key as not a valid point.
+  if (/^0x0*$/.test(data)) {
+    throw new Error(`EmptyBLS: ${data} is all zero`)
+  }
+  return assertBLSPublicKeyPoint(data)
+}
+
+/**
+ * Check the conditions `StakeManager.updateBLSPublicKey` reverts on,
+ * then simulate the call to catch anything else.
+ * Throws with the name of the custom error the transaction would revert with.
+ */
+export const preflightUpdateBLS = async (
+  hre: HRE,
+  stakeManager: Contract,
+  owner: string,
+  blsKey: string,
+): Promise<void> => {
+  const { ethers } = hre
+
+  const info = await stakeManager.getValidatorInfo(owner, 0)
+  if (info.operator === ethers.constants.AddressZero) {
+    throw new Error(`ValidatorDoesNotExist: ${owner} has not joined as a validator`)
+  }
+  console.log(`Current BLS key: ${info.blsPublicKey}`)
+
+  const registered = await stakeManager.blsPublicKeyToOwner(ethers.utils.hexDataSlice(blsKey, 0, 32))
+  if (registered !== ethers.constants.AddressZero) {
+    throw new Error(`AlreadyInUse: ${blsKey} is already registered by ${registered}`)
   }
-  return data;
-};
+
+  await simulateCall(hre, stakeManager, 'updateBLSPublicKey', [blsKey], owner)
+}
 
 task('update-bls', 'Call updateBLSPublicKey function of StakeManager')
   .addParam('key', 'The BLS public key to update', BLS_KEY, undefined)
+  .addOptionalParam('keystore', 'EIP-2335 keystore to derive the BLS public key from')
+  .addOptionalParam('password', 'Password of the keystore', BLS_KEYSTORE_PASSWORD)
+  .addOptionalParam('secretKeyFile', 'Hex encoded secret key file to derive the BLS public key from')
+  .addOptionalParam('signature', 'BLS signature over the challenge to prove the possession of the key')
+  .addOptionalParam('challenge', 'Hex encoded challenge message, defaults to the validator owner address')
+  .addFlag('dryRun', 'Stop after the preflight checks without sending the transaction')
   .setAction(async (taskArgs, hre) => {
-    const { ethers } = hre;
-    const signers = await ethers.getSigners();
-    const validatorOwner = signers[0].address;
-    const blsKey: string = assertBLSKey(taskArgs.key);
-    const stakeManager = await ethers.getContractAt('StakeManager', StakeManagerAddress)
+    const { ethers } = hre
+    const signers = await ethers.getSigners()
+    const validatorOwner = signers[0].address
+
+    let blsKey: string = taskArgs.key
+    if (taskArgs.keystore || taskArgs.secretKeyFile) {
+      const secretKey = taskArgs.keystore
+        ? await readBLSKeystore(taskArgs.keystore, taskArgs.password)
+        : readBLSSecretKeyFile(taskArgs.secretKeyFile)
+      const derived = getBLSPublicKey(secretKey)
+      if (blsKey !== '0x' && blsKey.toLowerCase() !== derived) {
+        throw new Error(`BLS key ${blsKey} does not match ${derived} derived from the secret key`)
+      }
+      blsKey = derived
+    }
+    assertBLSKey(blsKey)
+
+    if (taskArgs.signature) {
+      assertBLSSignature(blsKey, taskArgs.challenge ?? getBLSChallenge(validatorOwner), taskArgs.signature)
+      console.log(`BLS signature verified`)
+    }
+
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
     const balance = await ethers.provider.getBalance(validatorOwner)
 
     console.log(`Validator Owner address: ${validatorOwner}`)
     console.log(`Balance of owner key: ${balance}`)
+
+    await preflightUpdateBLS(hre, stakeManager, validatorOwner, blsKey)
+    console.log(`Preflight passed`)
+    if (taskArgs.dryRun) return
+
     console.log(`Updating BLS key to ${blsKey}`)
     console.log(`...`)
 
     // Send the transaction
     const tx = await stakeManager.updateBLSPublicKey(blsKey)
-    const receipt = await tx.wait(2); // Confirm 2 blocks
+    const receipt = await tx.wait(2) // Confirm 2 blocks
 
     // print the transaction receipt
     console.log(receipt)
 
     // Confirm the updated key
     const info = await stakeManager.getValidatorInfo(validatorOwner, 0)
-    console.log(`Updated BLS key: ${info.blsPublicKey}`);
-  });
+    console.log(`Updated BLS key: ${info.blsPublicKey}`)
+  })
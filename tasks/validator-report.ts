@@ -0,0 +1,102 @@
+import { task } from 'hardhat/config'
+import { BigNumber, Contract, utils } from 'ethers'
+
+import { paginate } from './lib'
+import { Row, addFormatParam, formatRows, parseFormat } from './format'
+import { getPredeployContract } from './predeploys'
+import { parseEpochs } from './validator'
+
+const percent = (numerator: BigNumber, denominator: BigNumber): string =>
+  denominator.isZero() ? '' : (numerator.mul(10000).div(denominator).toNumber() / 100).toFixed(2) + '%'
+
+/**
+ * Returns the commissions of the validator earned in the epoch, derived from the unclaimed
+ * commissions of the successive epochs as `StakeManager.getCommissions` sums them up from the last claim.
+ * @returns Undefined if the epoch is already claimed or not yet finished.
+ */
+const getEpochCommissions = async (
+  stakeManager: Contract,
+  validator: string,
+  lastClaim: number,
+  currEpoch: number,
+  epoch: number,
+): Promise<BigNumber | undefined> => {
+  if (epoch <= lastClaim || epoch >= currEpoch) return undefined
+
+  const epochs = epoch - lastClaim
+  const upTo: BigNumber = await stakeManager.getCommissions(validator, epochs)
+  // Zero epochs sums all unclaimed epochs, so the first epoch needs no subtraction.
+  if (epochs === 1) return upTo
+  return upTo.sub(await stakeManager.getCommissions(validator, epochs - 1))
+}
+
+/**
+ * Returns the status of the validators per epoch.
+ * @param validators Validator owners, defaults to all validators.
+ */
+export const getValidatorReport = async (
+  environment: Contract,
+  stakeManager: Contract,
+  epochs: number[],
+  validators?: string[],
+): Promise<Row[]> => {
+  if (!validators) {
+    validators = []
+    for await (const { page } of paginate((cursor, howMany) => stakeManager.getValidatorOwners(cursor, howMany))) {
+      validators.push(...page.owners)
+    }
+  }
+
+  const currEpoch = (await environment.epoch()).toNumber()
+  const envValues = new Map<number, any>()
+  for (const epoch of epochs) {
+    envValues.set(epoch, await environment.findValue(epoch))
+  }
+
+  const rows: Row[] = []
+  for (const validator of validators) {
+    const lastClaim = (await stakeManager.validators(validator)).lastClaimCommission.toNumber()
+
+    for (const epoch of epochs) {
+      const { validatorThreshold, jailThreshold } = envValues.get(epoch)
+      const info = await stakeManager.getValidatorInfo(validator, epoch)
+      const stakes: BigNumber = await stakeManager['getValidatorStakes(address,uint256)'](validator, epoch)
+      const { blocks, slashes } = await stakeManager.getBlockAndSlashes(validator, epoch)
+      const commissions = await getEpochCommissions(stakeManager, validator, lastClaim, currEpoch, epoch)
+
+      rows.push({
+        validator,
+        epoch,
+        operator: info.operator,
+        active: info.active,
+        jailed: info.jailed,
+        candidate: info.candidate,
+        stakes: utils.formatEther(stakes),
+        validatorThreshold: utils.formatEther(validatorThreshold),
+        aboveThreshold: stakes.gte(validatorThreshold),
+        blocks: blocks.toNumber(),
+        slashes: slashes.toNumber(),
+        jailThreshold: jailThreshold.toNumber(),
+        // Progress towards jailing, the validator is jailed at 100%.
+        slashRatio: percent(slashes, jailThreshold),
+        // Empty for the claimed and the unfinished epochs.
+        commissions: commissions ? utils.formatEther(commissions) : '',
+      })
+    }
+  }
+  return rows
+}
+
+addFormatParam(task('validator-report', 'Output the status of the validators per epoch'))
+  .addOptionalParam('validators', 'Comma separated validator owners, defaults to all validators')
+  .addOptionalParam('epochs', 'Epochs to report, such as `120-130`, defaults to the current epoch')
+  .setAction(async (taskArgs, hre) => {
+    const format = parseFormat(taskArgs.format)
+    const environment = await getPredeployContract(hre, 'Environment')
+    const epochs = taskArgs.epochs ? parseEpochs(taskArgs.epochs) : [(await environment.epoch()).toNumber()]
+    const validators = taskArgs.validators?.split(',').map((x: string) => utils.getAddress(x.trim()))
+
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const rows = await getValidatorReport(environment, stakeManager, epochs, validators)
+    console.log(formatRows(format, rows))
+  })
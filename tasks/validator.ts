@@ -0,0 +1,123 @@
+import { task } from 'hardhat/config'
+import { utils } from 'ethers'
+import type { Contract } from 'ethers'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { simulateCall, sendCall } from './lib'
+import { getPredeployContract } from './predeploys'
+
+/**
+ * Parse the epoch list such as `120-130,135`. Ranges are inclusive.
+ * @returns Sorted unique epoch numbers.
+ */
+export const parseEpochs = (value: string): number[] => {
+  const epochs = new Set<number>()
+  for (const part of value.split(',').map((x) => x.trim())) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/)
+    if (!match) throw new Error(`Invalid epoch \`${part}\`, expect a number or a range like \`120-130\``)
+
+    const from = Number(match[1])
+    const to = Number(match[2] ?? match[1])
+    if (from > to) throw new Error(`Invalid epoch range \`${part}\`, the start is greater than the end`)
+    for (let epoch = from; epoch <= to; epoch++) epochs.add(epoch)
+  }
+  return [...epochs].sort((a, b) => a - b)
+}
+
+const printValidatorInfo = async (label: string, stakeManager: Contract, validator: string) => {
+  const info = await stakeManager.getValidatorInfo(validator, 0)
+  console.log(`${label} (${validator}):`)
+  console.log(`  operator:  ${info.operator}`)
+  console.log(`  active:    ${info.active}`)
+  console.log(`  jailed:    ${info.jailed}`)
+  console.log(`  candidate: ${info.candidate}`)
+  console.log(`  stakes:    ${utils.formatEther(info.stakes)} OAS`)
+  console.log(`  BLS key:   ${info.blsPublicKey}`)
+}
+
+/**
+ * Call the StakeManager method from the first signer, printing the validator info before and after.
+ * @param validator Validator owner to print, defaults to the signer.
+ */
+const runValidatorCall = async (
+  hre: HRE,
+  taskArgs: { confirmations: string; dryRun: boolean },
+  method: string,
+  args: any[],
+  validator?: string,
+) => {
+  const [signer] = await hre.ethers.getSigners()
+  const stakeManager = await getPredeployContract(hre, 'StakeManager')
+  validator = validator ?? signer.address
+
+  console.log(`Signer address: ${signer.address}`)
+  await printValidatorInfo('Before', stakeManager, validator)
+
+  if (taskArgs.dryRun) {
+    await simulateCall(hre, stakeManager, method, args, signer.address)
+    console.log(`${method} would succeed`)
+    return
+  }
+
+  const receipt = await sendCall(hre, stakeManager, method, args, Number(taskArgs.confirmations))
+  console.log(`${method} confirmed in block ${receipt.blockNumber}: ${receipt.transactionHash}`)
+
+  await printValidatorInfo('After', stakeManager, validator)
+}
+
+const validatorTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam('confirmations', 'Number of blocks to wait for', '2')
+    .addFlag('dryRun', 'Simulate the call without sending the transaction')
+
+validatorTask('join-validator', 'Call joinValidator function of StakeManager')
+  .addParam('operator', 'Address used for block signing')
+  .setAction(async (taskArgs, hre) => {
+    await runValidatorCall(hre, taskArgs, 'joinValidator', [utils.getAddress(taskArgs.operator)])
+  })
+
+validatorTask('update-operator', 'Call updateOperator function of StakeManager')
+  .addParam('operator', 'New address used for block signing')
+  .setAction(async (taskArgs, hre) => {
+    await runValidatorCall(hre, taskArgs, 'updateOperator', [utils.getAddress(taskArgs.operator)])
+  })
+
+validatorTask('activate-validator', 'Call activateValidator function of StakeManager')
+  .addParam('epochs', 'Epochs to activate, such as `120-130,135`')
+  .addOptionalParam('validator', 'Validator owner, defaults to the signer')
+  .setAction(async (taskArgs, hre) => {
+    const validator = utils.getAddress(taskArgs.validator ?? (await hre.ethers.getSigners())[0].address)
+    const epochs = parseEpochs(taskArgs.epochs)
+    console.log(`Epochs: ${epochs.join(', ')}`)
+    await runValidatorCall(hre, taskArgs, 'activateValidator', [validator, epochs], validator)
+  })
+
+validatorTask('deactivate-validator', 'Call deactivateValidator function of StakeManager')
+  .addParam('epochs', 'Epochs to deactivate, such as `120-130,135`')
+  .addOptionalParam('validator', 'Validator owner, defaults to the signer')
+  .setAction(async (taskArgs, hre) => {
+    const validator = utils.getAddress(taskArgs.validator ?? (await hre.ethers.getSigners())[0].address)
+    const epochs = parseEpochs(taskArgs.epochs)
+    console.log(`Epochs: ${epochs.join(', ')}`)
+    await runValidatorCall(hre, taskArgs, 'deactivateValidator', [validator, epochs], validator)
+  })
+
+validatorTask('claim-commissions', 'Call claimCommissions function of StakeManager')
+  .addOptionalParam('epochs', 'Number of epochs to claim, zero claims all', '0')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const commissions = await stakeManager.getCommissions(signer.address, taskArgs.epochs)
+    console.log(`Commissions to claim: ${utils.formatEther(commissions)} OAS`)
+    await runValidatorCall(hre, taskArgs, 'claimCommissions', [signer.address, taskArgs.epochs])
+  })
+
+validatorTask('restake-commissions', 'Call restakeCommissions function of StakeManager')
+  .addOptionalParam('epochs', 'Number of epochs to restake, zero restakes all', '0')
+  .setAction(async (taskArgs, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const stakeManager = await getPredeployContract(hre, 'StakeManager')
+    const commissions = await stakeManager.getCommissions(signer.address, taskArgs.epochs)
+    console.log(`Commissions to restake: ${utils.formatEther(commissions)} OAS`)
+    await runValidatorCall(hre, taskArgs, 'restakeCommissions', [taskArgs.epochs])
+  })
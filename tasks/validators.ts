@@ -0,0 +1,101 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { ethers } from 'ethers'
+import type { ConfigurableTaskDefinition } from 'hardhat/types'
+
+import { Networks, Chains } from './lib'
+import { PredeployConfig, initialHighStakeValidators } from './predeploys'
+
+export type ValidatorSets = { [network in Networks]: string[] }
+
+const isNetwork = (x: string): x is Networks => Object.keys(Chains).includes(x)
+
+/**
+ * Parse the validator sets file.
+ * JSON: `{ "mainnet": ["0x..."], "testnet": ["0x..."] }`
+ * CSV:  `network,address` per line, the header line and `#` comments are ignored.
+ */
+export const parseValidatorSetsFile = (filepath: string): Partial<ValidatorSets> => {
+  const content = fs.readFileSync(filepath, 'utf-8')
+
+  let sets: { [network: string]: string[] } = {}
+  if (path.extname(filepath).toLowerCase() === '.csv') {
+    content.split(/\r?\n/).forEach((line, i) => {
+      line = line.trim()
+      if (line === '' || line.startsWith('#') || /^network\s*,\s*address$/i.test(line)) return
+
+      const cols = line.split(',').map((x) => x.trim())
+      if (cols.length !== 2) {
+        throw new Error(`${filepath}:${i + 1}: expected \`network,address\`, got \`${line}\``)
+      }
+      sets[cols[0]] = [...(sets[cols[0]] ?? []), cols[1]]
+    })
+  } else {
+    sets = JSON.parse(content)
+  }
+
+  for (const network of Object.keys(sets)) {
+    if (!isNetwork(network)) throw new Error(`${filepath}: unknown network \`${network}\``)
+  }
+  return sets
+}
+
+/**
+ * Assert that the addresses are checksummed and not duplicated.
+ */
+export const assertValidatorSet = (network: Networks, addresses: string[]): string[] => {
+  const seen = new Set<string>()
+  for (const address of addresses) {
+    let checksummed: string
+    try {
+      checksummed = ethers.utils.getAddress(address)
+    } catch (err) {
+      throw new Error(`${network}: invalid address ${address}`)
+    }
+    if (address !== checksummed) {
+      throw new Error(`${network}: address ${address} is not checksummed, expect ${checksummed}`)
+    }
+    if (seen.has(checksummed)) {
+      throw new Error(`${network}: address ${address} is duplicated`)
+    }
+    seen.add(checksummed)
+  }
+  return addresses
+}
+
+/**
+ * Add the parameters to override the initial high stake validators.
+ */
+export const addValidatorSetParams = (definition: ConfigurableTaskDefinition): ConfigurableTaskDefinition => {
+  definition.addOptionalParam('validators', 'Path to the JSON or CSV file of the initial validators per network')
+  for (const network of Object.keys(Chains)) {
+    definition.addOptionalParam(`${network}Validators`, `Comma separated initial validators of the ${network}`)
+  }
+  return definition
+}
+
+/**
+ * Returns the predeploy config from the task arguments.
+ * The task parameters take precedence over the file, and the file over the defaults.
+ */
+export const resolvePredeployConfig = (taskArgs: { [name: string]: any }): PredeployConfig => {
+  const sets: ValidatorSets = { ...initialHighStakeValidators }
+
+  if (taskArgs.validators) {
+    Object.assign(sets, parseValidatorSetsFile(taskArgs.validators))
+  }
+  for (const network of Object.keys(Chains) as Networks[]) {
+    const param: string | undefined = taskArgs[`${network}Validators`]
+    if (param !== undefined) {
+      sets[network] = param
+        .split(',')
+        .map((x) => x.trim())
+        .filter((x) => x !== '')
+    }
+  }
+
+  for (const network of Object.keys(sets) as Networks[]) {
+    assertValidatorSet(network, sets[network])
+  }
+  return { highStakeValidators: sets }
+}
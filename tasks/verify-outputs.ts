@@ -0,0 +1,50 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { task } from 'hardhat/config'
+import type { HardhatRuntimeEnvironment as HRE } from 'hardhat/types'
+
+import { diffJSON, formatDifference } from './lib'
+import { generateCandidateManagerOutput } from './output-candidate-manager'
+import { generateGenesisOutput } from './output-genesis'
+import { generateSlashIndicatorOutput } from './output-slash-indicator'
+
+// Committed output files and the generators that produce them.
+const outputs: { [file: string]: (hre: HRE) => Promise<any> } = {
+  'output-candidate-manager.json': generateCandidateManagerOutput,
+  'output-genesis.json': generateGenesisOutput,
+  'output-slash-indicator.json': generateSlashIndicatorOutput,
+}
+
+task('verify-outputs', 'Verify that the committed outputs match the compiled artifacts')
+  .addOptionalParam('dir', 'Directory of the output files, defaults to `outputs` of the project')
+  .setAction(async (taskArgs, hre) => {
+    await hre.run('compile', { quiet: true })
+
+    const dir = taskArgs.dir ?? path.join(hre.config.paths.root, 'outputs')
+    let failed = 0
+    for (const [file, generate] of Object.entries(outputs)) {
+      const filepath = path.join(dir, file)
+      if (!fs.existsSync(filepath)) {
+        console.log(`SKIP ${file}: not committed`)
+        continue
+      }
+
+      const committed = JSON.parse(fs.readFileSync(filepath, 'utf-8'))
+      const generated = JSON.parse(JSON.stringify(await generate(hre)))
+
+      const diffs = diffJSON(committed, generated)
+      if (diffs.length === 0) {
+        console.log(`OK   ${file}`)
+        continue
+      }
+
+      failed++
+      console.log(`FAIL ${file}: ${diffs.length} differences`)
+      diffs.forEach((diff) => console.log(`  ${formatDifference(diff)}`))
+    }
+
+    if (failed > 0) {
+      console.log(`${failed} output files are stale, regenerate them with the \`task:output-*\` scripts`)
+      process.exitCode = 1
+    }
+  })
@@ -1,4 +1,5 @@
 import { ethers, network } from 'hardhat'
+import { Wallet } from 'ethers'
 import { SignerWithAddress as Account } from '@nomiclabs/hardhat-ethers/signers'
 import { toWei } from 'web3-utils'
 import { expect } from 'chai'
@@ -6,7 +7,6 @@ import { expect } from 'chai'
 import type { Environment, StakeManager, SlashIndicator } from '../typechain-types/contracts'
 import type { Allowlist } from '../typechain-types/contracts/lib'
 import type { PrecompileBLSVerify, PrecompileDoubleSign } from '../typechain-types/contracts/test'
-import type { ISlashIndicator } from '../typechain-types/contracts/SlashIndicator'
 
 import {
   EnvironmentValue,
@@ -16,7 +16,22 @@ import {
   PrecompileDoubleSignAddress,
   PrecompileBLSVerifyBytecode,
   PrecompileDoubleSignBytecode,
+  makeBLSKeyPair,
+  signVote,
+  getWallet,
+  makeSignedHeader,
+  getStaticCallInputs,
+  zeroAddress,
+  StakeManagerSlots,
 } from './helpers'
+import { FinalityEvidence, encodeBLSVerifyInput, verifyBLSVerifyInput } from '../tasks/finality'
+import {
+  Header,
+  decodeDoubleSignInput,
+  encodeDoubleSignInput,
+  encodeHeader,
+  verifyDoubleSignInput,
+} from '../tasks/header'
 
 const initialEnv: EnvironmentValue = {
   startBlock: 0,
@@ -32,9 +47,7 @@ const initialEnv: EnvironmentValue = {
 
 const gasPrice = 0
 const chainId = 248
-const blsPubKey = '0x9393c6ce7b837418a3409f464026569b5aeace7cfc05ccd9535a36d9de4613131b955dfc5c4d61f030922d3c17b211af'
-const emptyBLSPubKey =
-  '0x000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000'
+const blsKey = makeBLSKeyPair('validator')
 
 describe('SlashIndicator', () => {
   let accounts: Account[]
@@ -101,9 +114,9 @@ describe('SlashIndicator', () => {
   beforeEach(async () => {
     const pad = (s: string, len = 32) => ethers.utils.hexZeroPad(s, len)
     const storages = [
-      ['0x0', pad(environment.address, 31) + '01'], // combined value of the `bool public initialized`
-      ['0x1', pad(allowlist.address, 32)],
-      [ethers.utils.keccak256(pad(slashIndicator.address) + pad('0x' + Number(11).toString(16)).slice(2)), pad('0x1')],
+      [StakeManagerSlots.environment, pad(environment.address, 31) + '01'],
+      [StakeManagerSlots.allowlist, pad(allowlist.address, 32)],
+      [ethers.utils.keccak256(pad(slashIndicator.address) + pad(StakeManagerSlots.jailCallers).slice(2)), pad('0x1')],
     ]
 
     await Promise.all(
@@ -117,43 +130,84 @@ describe('SlashIndicator', () => {
     validator = new Validator(stakeManager, owner, operator)
     await allowlist.connect(deployer).addAddress(validator.owner.address)
     await validator.joinValidator()
-    await validator.updateBLSPublicKey(blsPubKey)
+    await validator.updateBLSPublicKey(blsKey.publicKey)
   })
 
   describe('submitDoubleSignEvidence', () => {
-    const mockHeader1 = '0x1234'
-    const mockHeader2 = '0xffff'
+    let operatorWallet: Wallet
+    let currentBlockNumber: number
+
+    // Drive the mock by the input the contract forwards, as the precompile outputs or reverts.
+    const setDoubleSignResult = async (input: string) => {
+      try {
+        const { signer, evidenceHeight } = verifyDoubleSignInput(input)
+        await precompileDoubleSign.set(signer, evidenceHeight, false)
+      } catch {
+        await precompileDoubleSign.set(zeroAddress, 0, true)
+      }
+    }
+
+    const submit = async (header1: Header, header2: Header) => {
+      const encoded = [encodeHeader(header1), encodeHeader(header2)] as const
+      await setDoubleSignResult(encodeDoubleSignInput(chainId, ...encoded))
+      return slashIndicator.submitDoubleSignEvidence(...encoded)
+    }
+
+    beforeEach(async () => {
+      operatorWallet = getWallet(operator)
+      currentBlockNumber = await ethers.provider.getBlockNumber()
+    })
 
     it('success', async () => {
-      await precompileDoubleSign.set(await operator.getAddress(), 123, false)
+      const header1 = makeSignedHeader(operatorWallet, chainId, currentBlockNumber)
+      const header2 = makeSignedHeader(operatorWallet, chainId, currentBlockNumber, { gasUsed: '0x5208' })
 
-      const tx = await slashIndicator.submitDoubleSignEvidence(mockHeader1, mockHeader2)
+      const tx = await submit(header1, header2)
       const epoch = (await environment.epoch()).toNumber()
       await expect(tx)
         .to.emit(stakeManager, 'ValidatorJailed')
         .withArgs(validator.owner.address, epoch + 3)
+
+      // The precompile receives the chain id and the headers as they are.
+      const inputs = await getStaticCallInputs(tx.hash, PrecompileDoubleSignAddress)
+      expect(inputs).to.eql([encodeDoubleSignInput(chainId, encodeHeader(header1), encodeHeader(header2))])
+      expect(decodeDoubleSignInput(inputs[0])).to.eql({ chainId, header1, header2 })
+      expect(verifyDoubleSignInput(inputs[0])).to.eql({
+        signer: operator.address,
+        evidenceHeight: currentBlockNumber,
+      })
     })
 
     it('fail: invalid evidence', async () => {
-      await precompileDoubleSign.set(await operator.getAddress(), 123, true)
+      const header1 = makeSignedHeader(operatorWallet, chainId, currentBlockNumber)
+      const header2 = makeSignedHeader(getWallet(attacker), chainId, currentBlockNumber)
+
+      const tx = submit(header1, header2)
+      await expect(tx).to.revertedWithoutReason()
+    })
+
+    it('fail: sealed for another chain', async () => {
+      const header1 = makeSignedHeader(operatorWallet, chainId + 1, currentBlockNumber)
+      const header2 = makeSignedHeader(operatorWallet, chainId + 1, currentBlockNumber, { gasUsed: '0x5208' })
 
-      const tx = slashIndicator.submitDoubleSignEvidence(mockHeader1, mockHeader2)
+      const tx = submit(header1, header2)
       await expect(tx).to.revertedWithoutReason()
     })
 
     it('fail: validator not exist', async () => {
-      await precompileDoubleSign.set(await attacker.getAddress(), 123, false)
+      const header1 = makeSignedHeader(getWallet(attacker), chainId, currentBlockNumber)
+      const header2 = makeSignedHeader(getWallet(attacker), chainId, currentBlockNumber, { gasUsed: '0x5208' })
 
-      const tx = slashIndicator.submitDoubleSignEvidence(mockHeader1, mockHeader2)
+      const tx = submit(header1, header2)
       await expect(tx).to.revertedWith('ValidatorDoesNotExist()')
     })
 
     it('fail: evidence too old', async () => {
-      const currentBlockNumber = await ethers.provider.getBlockNumber()
-      await precompileDoubleSign.set(await operator.getAddress(), currentBlockNumber, false)
+      const header1 = makeSignedHeader(operatorWallet, chainId, currentBlockNumber)
+      const header2 = makeSignedHeader(operatorWallet, chainId, currentBlockNumber, { gasUsed: '0x5208' })
       await mining(currentBlockNumber + initialEnv.epochPeriod)
 
-      const tx = slashIndicator.submitDoubleSignEvidence(mockHeader1, mockHeader2)
+      const tx = submit(header1, header2)
       await expect(tx).to.be.revertedWithCustomError(slashIndicator, "EvidenceTooOld")
     })
   })
@@ -161,37 +215,62 @@ describe('SlashIndicator', () => {
   describe('submitFinalityViolationEvidence', () => {
     const sourceHash = `0x${'11'.repeat(32)}`
     let currentBlockNumber = 1
-    let evidence: ISlashIndicator.FinalityEvidenceStruct
+    let evidence: FinalityEvidence
+
+    // Set the precompile result to what the real BLS verification returns for both votes.
+    const setVerifyResult = async (evidence: FinalityEvidence) => {
+      const valid = [evidence.voteA, evidence.voteB].every((vote) =>
+        verifyBLSVerifyInput(encodeBLSVerifyInput(vote, evidence.voteAddr)),
+      )
+      await precompileBLSVerify.set(valid, false)
+    }
+
+    // Mine the reverting submission as well, and return the inputs the precompile was given.
+    const getRevertedInputs = async (evidence: FinalityEvidence): Promise<string[]> => {
+      await slashIndicator.submitFinalityViolationEvidence(evidence, { gasLimit: 5_000_000 }).catch(() => {})
+      const { transactions } = await ethers.provider.getBlock('latest')
+      const receipt = await ethers.provider.getTransactionReceipt(transactions[0])
+      expect(receipt.status).to.equal(0)
+      return getStaticCallInputs(receipt.transactionHash, PrecompileBLSVerifyAddress)
+    }
+
+    const makeEvidence = (secretKey: string, publicKey: string): FinalityEvidence => ({
+      voteA: signVote(secretKey, {
+        srcNum: currentBlockNumber - 1,
+        srcHash: sourceHash,
+        tarNum: currentBlockNumber,
+        tarHash: `0x${'22'.repeat(32)}`,
+      }),
+      voteB: signVote(secretKey, {
+        srcNum: currentBlockNumber - 1,
+        srcHash: sourceHash,
+        tarNum: currentBlockNumber,
+        tarHash: `0x${'33'.repeat(32)}`,
+      }),
+      voteAddr: publicKey,
+    })
 
     beforeEach(async () => {
       currentBlockNumber = await ethers.provider.getBlockNumber()
-      evidence = {
-        voteA: {
-          srcNum: currentBlockNumber - 1,
-          srcHash: sourceHash,
-          tarNum: currentBlockNumber,
-          tarHash: `0x${'22'.repeat(32)}`,
-          sig: `0x${'01'.repeat(96)}`,
-        },
-        voteB: {
-          srcNum: currentBlockNumber - 1,
-          srcHash: sourceHash,
-          tarNum: currentBlockNumber,
-          tarHash: `0x${'33'.repeat(32)}`,
-          sig: `0x${'02'.repeat(96)}`,
-        },
-        voteAddr: blsPubKey,
-      }
+      evidence = makeEvidence(blsKey.secretKey, blsKey.publicKey)
     })
 
     it('success', async () => {
-      await precompileBLSVerify.set(true, false)
+      await setVerifyResult(evidence)
 
       const tx = await slashIndicator.submitFinalityViolationEvidence(evidence)
       const epoch = (await environment.epoch()).toNumber()
       await expect(tx)
         .to.emit(stakeManager, 'ValidatorJailed')
         .withArgs(validator.owner.address, epoch + 1)
+
+      // The precompile is given the vote hashes and the signatures as signed.
+      const inputs = await getStaticCallInputs(tx.hash, PrecompileBLSVerifyAddress)
+      expect(inputs).to.eql([
+        encodeBLSVerifyInput(evidence.voteA, evidence.voteAddr),
+        encodeBLSVerifyInput(evidence.voteB, evidence.voteAddr),
+      ])
+      expect(inputs.map(verifyBLSVerifyInput)).to.eql([true, true])
     })
 
     it('fail: target block too old', async () => {
@@ -218,18 +297,48 @@ describe('SlashIndicator', () => {
     })
 
     it('fail: verify signature failed', async () => {
-      await precompileBLSVerify.set(false, false)
+      // Signed by another key.
+      const other = makeBLSKeyPair('other')
+      evidence.voteB = makeEvidence(other.secretKey, other.publicKey).voteB
+      await setVerifyResult(evidence)
+
+      const tx = slashIndicator.submitFinalityViolationEvidence(evidence)
+      await expect(tx).to.be.revertedWithCustomError(slashIndicator, 'VerifySignatureFailed')
+
+      // The first vote is verified with the key of the evidence, and the second is not verified.
+      const inputs = await getRevertedInputs(evidence)
+      expect(inputs).to.eql([encodeBLSVerifyInput(evidence.voteA, evidence.voteAddr)])
+      expect(verifyBLSVerifyInput(encodeBLSVerifyInput(evidence.voteB, evidence.voteAddr))).to.be.false
+    })
+
+    it('fail: signature over another vote', async () => {
+      evidence.voteB.sig = evidence.voteA.sig
+      await setVerifyResult(evidence)
 
       const tx = slashIndicator.submitFinalityViolationEvidence(evidence)
       await expect(tx).to.be.revertedWithCustomError(slashIndicator, 'VerifySignatureFailed')
+
+      // The hash of the second vote is given with the signature over the first vote.
+      const inputs = await getRevertedInputs(evidence)
+      expect(inputs).to.eql([encodeBLSVerifyInput(evidence.voteA, evidence.voteAddr)])
+      expect(verifyBLSVerifyInput(encodeBLSVerifyInput(evidence.voteB, evidence.voteAddr))).to.be.false
     })
 
     it('fail: validator not exist', async () => {
-      await precompileBLSVerify.set(true, false)
-      evidence.voteAddr = emptyBLSPubKey
+      const other = makeBLSKeyPair('other')
+      evidence = makeEvidence(other.secretKey, other.publicKey)
+      await setVerifyResult(evidence)
 
       const tx = slashIndicator.submitFinalityViolationEvidence(evidence)
       await expect(tx).to.revertedWith('ValidatorDoesNotExist()')
+
+      // Both votes are verified with the key of the evidence before the validator lookup.
+      const inputs = await getRevertedInputs(evidence)
+      expect(inputs).to.eql([
+        encodeBLSVerifyInput(evidence.voteA, other.publicKey),
+        encodeBLSVerifyInput(evidence.voteB, other.publicKey),
+      ])
+      expect(inputs.map(verifyBLSVerifyInput)).to.eql([true, true])
     })
   })
 })
@@ -19,6 +19,7 @@ import {
   SOASAddress,
   TestERC20Bytecode,
   toBNWei,
+  StakeManagerSlots,
 } from './helpers'
 
 const initialEnv: EnvironmentValue = {
@@ -283,11 +284,11 @@ describe('StakeManager', () => {
   beforeEach(async () => {
     const pad = (s: string, len = 32) => ethers.utils.hexZeroPad(s, len)
     const storages = [
-      ['0x0', pad(environment.address, 31) + '01'], // combined value of the `bool public initialized`
-      ['0x1', pad(allowlist.address)],
-      ['0x9', pad(candidateManager.address)],
+      [StakeManagerSlots.environment, pad(environment.address, 31) + '01'],
+      [StakeManagerSlots.allowlist, pad(allowlist.address)],
+      [StakeManagerSlots.candidateManager, pad(candidateManager.address)],
       [
-        ethers.utils.keccak256(pad(await slasher.getAddress()) + pad('0x' + Number(11).toString(16)).slice(2)),
+        ethers.utils.keccak256(pad(await slasher.getAddress()) + pad(StakeManagerSlots.jailCallers).slice(2)),
         pad('0x1'),
       ],
     ]
@@ -1,11 +1,19 @@
 import web3 from 'web3'
 import { ethers, network } from 'hardhat'
-import { Contract, BigNumber } from 'ethers'
+import { Contract, BigNumber, Wallet } from 'ethers'
 import { SignerWithAddress as Account } from '@nomiclabs/hardhat-ethers/signers'
+import type { HardhatNetworkHDAccountsConfig } from 'hardhat/types'
 import { toWei, fromWei, toDecimal } from 'web3-utils'
 import { toBuffer } from 'ethereumjs-util'
+import { bls12_381 as bls } from '@noble/curves/bls12-381'
 import { expect } from 'chai'
 
+import { getBLSPublicKey, signBLSMessage } from '../tasks/bls'
+import { VoteData, getVoteHash } from '../tasks/finality'
+import { EXTRA_SEAL_LENGTH, Header, encodeHeader, sealHash } from '../tasks/header'
+import { paginate } from '../tasks/lib'
+import { Predeploys } from '../tasks/predeploys'
+
 interface EnvironmentValue {
   startBlock: number
   startEpoch: number
@@ -290,6 +298,100 @@ const makeExpiration = (duration?: number): number => {
   return ~~(dt.getTime() / 1000) + (duration ?? 86400)
 }
 
+// Storage slots of the StakeManager state variables, set directly instead of initializing the contract.
+const StakeManagerSlots = {
+  // Packed with the `bool public initialized` as the lowest byte
+  environment: '0x0',
+  allowlist: '0x1',
+  candidateManager: '0x9',
+  // `mapping(address => bool) jailCallers`
+  jailCallers: '0xb',
+}
+
+interface StakeManagerFixture {
+  accounts: Account[]
+  deployer: Account
+  environment: Contract
+  allowlist: Contract
+  stakeManager: Contract
+  candidateManager: Contract
+  validators: Validator[]
+  stakers: Staker[]
+}
+
+// Deterministic pseudo random numbers, so a failure can be reproduced by the seed.
+const randomizer = (seed: number) => (min: number, max: number) => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31
+  return min + (seed % (max - min + 1))
+}
+
+// Deploy the StakeManager wired to the Environment, Allowlist and CandidateValidatorManager on a reset chain,
+// join the validators and mint the wOAS and sOAS of the stakers, approved to the StakeManager.
+// With `predeploys`, the Environment and the StakeManager are placed at the predeploy addresses the tasks call.
+const deployStakeManager = async (
+  initialEnv: EnvironmentValue,
+  opts: { validators?: number[]; stakers?: number[]; mint?: string; balance?: string; predeploys?: boolean } = {},
+): Promise<StakeManagerFixture> => {
+  const accounts = await ethers.getSigners()
+  const deployer = accounts[0]
+
+  await network.provider.send('hardhat_reset')
+  await network.provider.send('hardhat_setCode', [WOASAddress, TestERC20Bytecode])
+  await network.provider.send('hardhat_setCode', [SOASAddress, TestERC20Bytecode])
+  await network.provider.send('hardhat_setCoinbase', [deployer.address])
+
+  const deploy = async (name: 'Environment' | 'StakeManager'): Promise<Contract> => {
+    const contract = await (await ethers.getContractFactory(name)).connect(deployer).deploy()
+    if (!opts.predeploys) return contract
+
+    const address = Predeploys[name].address
+    await network.provider.send('hardhat_setCode', [address, await ethers.provider.getCode(contract.address)])
+    return contract.attach(address)
+  }
+
+  const environment = await deploy('Environment')
+  await environment.initialize(initialEnv, { gasPrice })
+  const allowlist = await (await ethers.getContractFactory('Allowlist')).connect(deployer).deploy()
+  const stakeManager = await deploy('StakeManager')
+
+  const addrList = await (await ethers.getContractFactory('AddressList')).connect(deployer).deploy()
+  const candidateManager = await (await ethers.getContractFactory('CandidateValidatorManager'))
+    .connect(deployer)
+    .deploy(environment.address, stakeManager.address, addrList.address)
+  await addrList.transferOwnership(candidateManager.address)
+
+  const pad = (s: string, len = 32) => ethers.utils.hexZeroPad(s, len)
+  const storages = [
+    [StakeManagerSlots.environment, pad(environment.address, 31) + '01'],
+    [StakeManagerSlots.allowlist, pad(allowlist.address)],
+    [StakeManagerSlots.candidateManager, pad(candidateManager.address)],
+  ]
+  for (const [slot, value] of storages) {
+    await network.provider.send('hardhat_setStorageAt', [stakeManager.address, slot, value])
+  }
+
+  const validators = (opts.validators ?? [1, 3]).map((i) => new Validator(stakeManager, accounts[i], accounts[i + 1]))
+  for (const validator of validators) {
+    await allowlist.addAddress(validator.owner.address, { gasPrice })
+    await validator.joinValidator()
+  }
+
+  const stakers = (opts.stakers ?? []).map((i) => new Staker(stakeManager, accounts[i]))
+  for (const staker of stakers) {
+    if (opts.balance) {
+      const balance = ethers.utils.hexValue(ethers.utils.parseEther(opts.balance))
+      await network.provider.send('hardhat_setBalance', [staker.address, balance])
+    }
+    for (const address of [WOASAddress, SOASAddress]) {
+      const token = (await ethers.getContractFactory('TestERC20')).attach(address).connect(staker.signer)
+      await token.mint({ gasPrice, value: toWei(opts.mint ?? '1000') })
+      await token.approve(stakeManager.address, ethers.constants.MaxUint256, { gasPrice })
+    }
+  }
+
+  return { accounts, deployer, environment, allowlist, stakeManager, candidateManager, validators, stakers }
+}
+
 const getStakes = async (
   stakeManager: Contract,
   staker: Account,
@@ -312,20 +414,102 @@ const expectTotalStake = async (
     return fromWei(x.toString())
   }
 
-  const { oasStakes, woasStakes, soasStakes } = await getStakes(stakeManager, staker)
+  const [oasStakes, woasStakes, soasStakes]: BigNumber[][] = [[], [], []]
+  for await (const { page } of paginate((cursor, howMany) => getStakes(stakeManager, staker, 0, cursor, howMany))) {
+    oasStakes.push(...page.oasStakes)
+    woasStakes.push(...page.woasStakes)
+    soasStakes.push(...page.soasStakes)
+  }
   expect(sum(oasStakes)).to.match(new RegExp(`^${expectOAS}`))
   expect(sum(woasStakes)).to.match(new RegExp(`^${expectWOAS}`))
   expect(sum(soasStakes)).to.match(new RegExp(`^${expectSOAS}`))
 }
 
+// Random BLS key pair, or derived from the seed so that the test is reproducible.
+const makeBLSKeyPair = (seed?: string): { secretKey: string; publicKey: string } => {
+  let secretKey = ethers.utils.hexlify(bls.utils.randomPrivateKey())
+  if (seed !== undefined) {
+    const { ORDER } = bls.fields.Fr
+    // Non-zero scalar less than the curve order.
+    const scalar = (BigInt(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(seed))) % (ORDER - 1n)) + 1n
+    secretKey = ethers.utils.hexZeroPad(ethers.utils.hexlify(scalar), 32)
+  }
+  return { secretKey, publicKey: getBLSPublicKey(secretKey) }
+}
+
+const signVote = (secretKey: string, vote: Omit<VoteData, 'sig'>): VoteData => ({
+  ...vote,
+  sig: signBLSMessage(secretKey, getVoteHash(vote)),
+})
+
+// Returns the wallet of the hardhat account, derived from the mnemonic of the network config.
+const getWallet = (account: Account): Wallet => {
+  const { mnemonic, path, initialIndex, count } = network.config.accounts as HardhatNetworkHDAccountsConfig
+  for (let i = initialIndex; i < initialIndex + count; i++) {
+    const wallet = Wallet.fromMnemonic(mnemonic, `${path}/${i}`)
+    if (wallet.address === account.address) return wallet
+  }
+  throw new Error(`${account.address} is not derived from the mnemonic`)
+}
+
+// Replace the extra-data with the vanity and the signature of the wallet, as the sealer does.
+const sealHeader = (header: Header, sealer: Wallet, chainId: number): Header => {
+  const unsigned = { ...header, extraData: ethers.utils.hexlify(new Uint8Array(32 + EXTRA_SEAL_LENGTH)) }
+  const { r, s, recoveryParam } = sealer._signingKey().signDigest(sealHash(unsigned, chainId))
+  const sealed = { ...unsigned, extraData: ethers.utils.hexConcat([new Uint8Array(32), r, s, [recoveryParam]]) }
+  return { ...sealed, hash: ethers.utils.keccak256(encodeHeader(sealed)) }
+}
+
+// Returns the header of the London block sealed by the operator, as the Oasys node produces.
+const makeSignedHeader = (sealer: Wallet, chainId: number, number: number, diff: Partial<Header> = {}): Header => {
+  const { hexValue, hexlify, keccak256, randomBytes } = ethers.utils
+  const header: Header = {
+    parentHash: ethers.utils.id(`block ${number - 1}`),
+    sha3Uncles: keccak256('0xc0'), // no uncles
+    miner: sealer.address.toLowerCase(),
+    stateRoot: hexlify(randomBytes(32)),
+    transactionsRoot: keccak256('0x80'), // no transactions
+    receiptsRoot: keccak256('0x80'),
+    logsBloom: hexlify(new Uint8Array(256)),
+    difficulty: '0x2', // in turn
+    number: hexValue(number),
+    gasLimit: hexValue(30_000_000),
+    gasUsed: '0x0',
+    timestamp: hexValue(1_700_000_000 + number * 15),
+    extraData: '0x',
+    mixHash: hexlify(new Uint8Array(32)),
+    nonce: hexlify(new Uint8Array(8)),
+    baseFeePerGas: '0x0',
+    ...diff,
+  }
+  return sealHeader(header, sealer, chainId)
+}
+
+// Returns the inputs of the STATICCALLs the transaction made to the address, such as the precompiles.
+const getStaticCallInputs = async (txHash: string, to: string): Promise<string[]> => {
+  const { structLogs } = await network.provider.send('debug_traceTransaction', [txHash])
+  const word = (x: string) => BigNumber.from('0x' + x.replace(/^0x/, ''))
+
+  const inputs: string[] = []
+  for (const { op, stack, memory } of structLogs) {
+    if (op !== 'STATICCALL') continue
+    const [size, offset, address] = stack.slice(-4, -1).map(word)
+    if (!address.eq(to)) continue
+
+    const data = '0x' + memory.map((x: string) => x.replace(/^0x/, '')).join('')
+    inputs.push(ethers.utils.hexDataSlice(data, offset.toNumber(), offset.add(size).toNumber()))
+  }
+  return inputs
+}
+
 const chainid = network.config.chainId!
 
 const zeroAddress = '0x0000000000000000000000000000000000000000'
 
 const Token = { OAS: 0, wOAS: 1, sOAS: 2 }
 
-const WOASAddress = '0x5200000000000000000000000000000000000001'
-const SOASAddress = '0x5200000000000000000000000000000000000002'
+const WOASAddress = Predeploys.WOAS.address
+const SOASAddress = Predeploys.SOAS.address
 const TestERC20Bytecode =
   '0x6080604052600436106100a75760003560e01c80633950935111610064578063395093511461016c57806370a082311461018c57806395d89b41146101c2578063a457c2d7146101d7578063a9059cbb146101f7578063dd62ed3e1461021757600080fd5b806306fdde03146100ac578063095ea7b3146100d75780631249c58b1461010757806318160ddd1461011157806323b872dd14610130578063313ce56714610150575b600080fd5b3480156100b857600080fd5b506100c161025d565b6040516100ce919061088d565b60405180910390f35b3480156100e357600080fd5b506100f76100f23660046108fe565b6102ef565b60405190151581526020016100ce565b61010f610307565b005b34801561011d57600080fd5b506002545b6040519081526020016100ce565b34801561013c57600080fd5b506100f761014b366004610928565b610313565b34801561015c57600080fd5b50604051601281526020016100ce565b34801561017857600080fd5b506100f76101873660046108fe565b610337565b34801561019857600080fd5b506101226101a7366004610964565b6001600160a01b031660009081526020819052604090205490565b3480156101ce57600080fd5b506100c1610376565b3480156101e357600080fd5b506100f76101f23660046108fe565b610385565b34801561020357600080fd5b506100f76102123660046108fe565b61041c565b34801561022357600080fd5b50610122610232366004610986565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205490565b60606003805461026c906109b9565b80601f0160208091040260200160405190810160405280929190818152602001828054610298906109b9565b80156102e55780601f106102ba576101008083540402835291602001916102e5565b820191906000526020600020905b8154815290600101906020018083116102c857829003601f168201915b5050505050905090565b6000336102fd81858561042a565b5060019392505050565b610311333461054e565b565b60003361032185828561062d565b61032c8585856106bf565b506001949350505050565b3360008181526001602090815260408083206001600160a01b03871684529091528120549091906102fd90829086906103719087906109f4565b61042a565b60606004805461026c906109b9565b3360008181526001602090815260408083206001600160a01b03871684529091528120549091908381101561040f5760405162461bcd60e51b815260206004820152602560248201527f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f77604482015264207a65726f60d81b60648201526084015b60405180910390fd5b61032c828686840361042a565b6000336102fd8185856106bf565b6001600160a01b03831661048c5760405162461bcd60e51b8152602060048201526024808201527f45524332303a20617070726f76652066726f6d20746865207a65726f206164646044820152637265737360e01b6064820152608401610406565b6001600160a01b0382166104ed5760405162461bcd60e51b815260206004820152602260248201527f45524332303a20617070726f766520746f20746865207a65726f206164647265604482015261737360f01b6064820152608401610406565b6001600160a01b0383811660008181526001602090815260408083209487168084529482529182902085905590518481527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925910160405180910390a3505050565b6001600160a01b0382166105a45760405162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f2061646472657373006044820152606401610406565b80600260008282546105b691906109f4565b90915550506001600160a01b038216600090815260208190526040812080548392906105e39084906109f4565b90915550506040518181526001600160a01b038316906000907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b6001600160a01b0383811660009081526001602090815260408083209386168352929052205460001981146106b957818110156106ac5760405162461bcd60e51b815260206004820152601d60248201527f45524332303a20696e73756666696369656e7420616c6c6f77616e63650000006044820152606401610406565b6106b9848484840361042a565b50505050565b6001600160a01b0383166107235760405162461bcd60e51b815260206004820152602560248201527f45524332303a207472616e736665722066726f6d20746865207a65726f206164604482015264647265737360d81b6064820152608401610406565b6001600160a01b0382166107855760405162461bcd60e51b815260206004820152602360248201527f45524332303a207472616e7366657220746f20746865207a65726f206164647260448201526265737360e81b6064820152608401610406565b6001600160a01b038316600090815260208190526040902054818110156107fd5760405162461bcd60e51b815260206004820152602660248201527f45524332303a207472616e7366657220616d6f756e7420657863656564732062604482015265616c616e636560d01b6064820152608401610406565b6001600160a01b038085166000908152602081905260408082208585039055918516815290812080548492906108349084906109f4565b92505081905550826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8460405161088091815260200190565b60405180910390a36106b9565b600060208083528351808285015260005b818110156108ba5785810183015185820160400152820161089e565b818111156108cc576000604083870101525b50601f01601f1916929092016040019392505050565b80356001600160a01b03811681146108f957600080fd5b919050565b6000806040838503121561091157600080fd5b61091a836108e2565b946020939093013593505050565b60008060006060848603121561093d57600080fd5b610946846108e2565b9250610954602085016108e2565b9150604084013590509250925092565b60006020828403121561097657600080fd5b61097f826108e2565b9392505050565b6000806040838503121561099957600080fd5b6109a2836108e2565b91506109b0602084016108e2565b90509250929050565b600181811c908216806109cd57607f821691505b602082108114156109ee57634e487b7160e01b600052602260045260246000fd5b50919050565b60008219821115610a1557634e487b7160e01b600052601160045260246000fd5b50019056fea2646970667358221220c9b4e2e2bd5c3fd95e99a722b6e2ec90476d969d980d709b3308f56bbea45c4664736f6c63430008090033'
 
@@ -338,6 +522,8 @@ export {
   EnvironmentValue,
   ValidatorInfo,
   StakerInfo,
+  StakeManagerFixture,
+  StakeManagerSlots,
   Validator,
   Staker,
   getBlockNumber,
@@ -348,6 +534,14 @@ export {
   makeSignature,
   makeHashWithNonce,
   makeExpiration,
+  randomizer,
+  deployStakeManager,
+  makeBLSKeyPair,
+  signVote,
+  getWallet,
+  sealHeader,
+  makeSignedHeader,
+  getStaticCallInputs,
   chainid,
   zeroAddress,
   Token,
@@ -0,0 +1,127 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { utils } from 'ethers'
+import { expect } from 'chai'
+import { create, defaultPbkdfModule } from '@chainsafe/bls-keystore'
+
+import {
+  assertBLSPublicKeyPoint,
+  assertBLSSignature,
+  getBLSChallenge,
+  getBLSPublicKey,
+  readBLSKeystore,
+  readBLSSecretKeyFile,
+  signBLSMessage,
+} from '../../tasks/bls'
+import { assertBLSKey } from '../../tasks/update-bls'
+
+describe('tasks/bls', () => {
+  const secretKey = '0x' + '11'.repeat(32)
+  const publicKey = getBLSPublicKey(secretKey)
+  const owner = '0x' + '22'.repeat(20)
+
+  let tmpdir: string
+
+  const errorOf = async (promise: Promise<any>): Promise<string> => {
+    try {
+      await promise
+    } catch (err) {
+      return (err as Error).message
+    }
+    throw new Error('not rejected')
+  }
+
+  before(() => {
+    tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'bls-'))
+  })
+
+  after(() => {
+    fs.rmSync(tmpdir, { recursive: true })
+  })
+
+  describe('assertBLSKey()', () => {
+    it('valid point', () => {
+      expect(assertBLSKey(publicKey)).to.equal(publicKey)
+    })
+
+    it('not on the curve', () => {
+      const typo = publicKey.slice(0, -1) + (publicKey.endsWith('0') ? '1' : '0')
+      expect(() => assertBLSKey(typo)).to.throw('is not a point on the curve')
+    })
+
+    it('point at infinity', () => {
+      expect(() => assertBLSPublicKeyPoint('0xc0' + '00'.repeat(47))).to.throw('is the point at infinity')
+    })
+
+    it('not in the prime order subgroup', () => {
+      // (0, ±2) is on the curve y^2 = x^3 + 4, but not a multiple of the generator.
+      for (const point of ['0x80' + '00'.repeat(47), '0xa0' + '00'.repeat(47)]) {
+        expect(() => assertBLSPublicKeyPoint(point)).to.throw('is not in the prime order subgroup')
+      }
+      const uncompressed = '0x' + '00'.repeat(95) + '02'
+      expect(() => assertBLSPublicKeyPoint(uncompressed)).to.throw('is not in the prime order subgroup')
+    })
+
+    it('uncompressed point not on the curve', () => {
+      expect(() => assertBLSPublicKeyPoint('0x' + '00'.repeat(95) + '03')).to.throw('is not a point on the curve')
+    })
+
+    it('all zero', () => {
+      expect(() => assertBLSKey('0x' + '00'.repeat(48))).to.throw('EmptyBLS')
+    })
+
+    it('wrong length', () => {
+      expect(() => assertBLSKey(publicKey.slice(0, -2))).to.throw('is not 96 bytes long')
+    })
+  })
+
+  describe('assertBLSSignature()', () => {
+    it('signed by the key', () => {
+      const signature = signBLSMessage(secretKey, getBLSChallenge(owner))
+      assertBLSSignature(publicKey, getBLSChallenge(owner), signature)
+    })
+
+    it('signed by another key', () => {
+      const signature = signBLSMessage('0x' + '33'.repeat(32), getBLSChallenge(owner))
+      expect(() => assertBLSSignature(publicKey, getBLSChallenge(owner), signature)).to.throw('is not made by')
+    })
+
+    it('signed over another message', () => {
+      const signature = signBLSMessage(secretKey, getBLSChallenge('0x' + '44'.repeat(20)))
+      expect(() => assertBLSSignature(publicKey, getBLSChallenge(owner), signature)).to.throw('is not made by')
+    })
+  })
+
+  describe('readBLSKeystore()', () => {
+    const kdf = defaultPbkdfModule()
+    kdf.params.c = 2 // keep the test fast
+
+    it('normally', async () => {
+      const keystore = await create('password', utils.arrayify(secretKey), utils.arrayify(publicKey), '', null, kdf)
+      const file = path.join(tmpdir, 'keystore.json')
+      fs.writeFileSync(file, JSON.stringify(keystore))
+
+      expect(await readBLSKeystore(file, 'password')).to.equal(secretKey)
+      expect(await errorOf(readBLSKeystore(file, 'wrong'))).to.not.be.empty
+    })
+
+    it('mismatched pubkey', async () => {
+      const other = getBLSPublicKey('0x' + '33'.repeat(32))
+      const keystore = await create('password', utils.arrayify(secretKey), utils.arrayify(other), '', null, kdf)
+      const file = path.join(tmpdir, 'mismatched.json')
+      fs.writeFileSync(file, JSON.stringify(keystore))
+
+      expect(await errorOf(readBLSKeystore(file, 'password'))).to.contain('but the secret key derives')
+    })
+  })
+
+  it('readBLSSecretKeyFile()', () => {
+    const file = path.join(tmpdir, 'secret')
+    fs.writeFileSync(file, secretKey.slice(2) + '\n')
+    expect(readBLSSecretKeyFile(file)).to.equal(secretKey)
+
+    fs.writeFileSync(file, 'not a key')
+    expect(() => readBLSSecretKeyFile(file)).to.throw('does not contain a 32 bytes hex secret key')
+  })
+})
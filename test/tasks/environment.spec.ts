@@ -0,0 +1,177 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import hre, { ethers, network } from 'hardhat'
+import { Contract } from 'ethers'
+import { expect } from 'chai'
+
+import { mining, getBlockNumber, randomizer } from '../helpers'
+import { Predeploys } from '../../tasks/predeploys'
+import {
+  computeStartBlock,
+  estimateSeconds,
+  fetchEnvironmentValues,
+  findValueByEpoch,
+  getBlocksUntilNextEpoch,
+  getEpoch,
+  getEpochStartBlock,
+  parseEnvironmentProposal,
+  readEnvironmentValues,
+  serializeEnvironmentValues,
+  toEnvironmentValue,
+  validateEnvironmentValue,
+} from '../../tasks/environment'
+
+const initialValue = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 10,
+  epochPeriod: 10,
+  rewardRate: 10,
+  commissionRate: 0,
+  validatorThreshold: ethers.utils.parseEther('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/environment', () => {
+  let environment: Contract
+  let tmpdir: string
+
+  before(() => {
+    tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-history-'))
+  })
+
+  after(() => {
+    fs.rmSync(tmpdir, { recursive: true })
+  })
+
+  beforeEach(async () => {
+    await network.provider.send('hardhat_reset')
+    await network.provider.send('hardhat_setCoinbase', [(await ethers.getSigners())[0].address])
+
+    const { deployedBytecode } = await hre.artifacts.readArtifact('Environment')
+    await network.provider.send('hardhat_setCode', [Predeploys.Environment.address, deployedBytecode])
+    environment = await ethers.getContractAt('Environment', Predeploys.Environment.address)
+  })
+
+  for (const seed of [1, 2, 3, 4, 5]) {
+    it(`random history (seed=${seed})`, async () => {
+      const random = randomizer(seed)
+
+      await environment.initialize({ ...initialValue, epochPeriod: random(3, 20) })
+      for (let i = 0; i < 8; i++) {
+        await mining((await getBlockNumber()) + random(1, 30))
+
+        // Some updates overwrite the value not started yet.
+        const startEpoch = (await environment.epoch()).toNumber() + random(2, 4)
+        const value = { ...initialValue, startEpoch, epochPeriod: random(3, 20) }
+        while (true) {
+          try {
+            await environment.updateValue(value)
+            break
+          } catch (err) {
+            if (!String(err).includes('OnlyNotLastBlock')) throw err
+            await mining((await getBlockNumber()) + 1)
+          }
+        }
+      }
+      await mining((await getBlockNumber()) + 100)
+
+      const latest = await getBlockNumber()
+      const values = await fetchEnvironmentValues(hre)
+
+      for (let block = 1; block <= latest; block++) {
+        const actual = (await environment.epoch({ blockTag: block })).toNumber()
+        expect(getEpoch(values, block)).to.equal(actual, `block=${block}`)
+      }
+
+      for (let epoch = 1; epoch <= getEpoch(values, latest) + 5; epoch++) {
+        const actual = toEnvironmentValue(await environment.findValue(epoch))
+        expect(findValueByEpoch(values, epoch)).to.eql(actual, `epoch=${epoch}`)
+
+        const startBlock = getEpochStartBlock(values, epoch)
+        if (startBlock > latest) continue
+        expect(getEpoch(values, startBlock)).to.equal(epoch, `epoch=${epoch}`)
+        if (startBlock > 1) {
+          expect(getBlocksUntilNextEpoch(values, startBlock - 1)).to.equal(1, `epoch=${epoch}`)
+          expect((await environment.epoch({ blockTag: startBlock - 1 })).toNumber()).to.equal(epoch - 1)
+        }
+      }
+    })
+  }
+
+  it('serializeEnvironmentValues() and readEnvironmentValues()', async () => {
+    await environment.initialize(initialValue)
+    await mining(24)
+    await environment.updateValue({ ...initialValue, startEpoch: 5, epochPeriod: 5 })
+    await mining(60)
+
+    const values = await fetchEnvironmentValues(hre)
+    expect(values.map((value) => value.startBlock)).to.eql([0, 40])
+
+    const file = path.join(tmpdir, 'history.json')
+    fs.writeFileSync(file, serializeEnvironmentValues([...values].reverse()))
+    expect(readEnvironmentValues(file)).to.eql(values)
+  })
+
+  it('estimateSeconds()', () => {
+    const values = [
+      toEnvironmentValue({ ...initialValue, startEpoch: 1 }),
+      toEnvironmentValue({ ...initialValue, startBlock: 40, startEpoch: 5, blockPeriod: 2, epochPeriod: 5 }),
+    ]
+    expect(estimateSeconds(values, 0, 40)).to.equal(400)
+    expect(estimateSeconds(values, 35, 50)).to.equal(5 * 10 + 10 * 2)
+    expect(estimateSeconds(values, 50, 50)).to.equal(0)
+  })
+
+  it('validateEnvironmentValue()', async () => {
+    await environment.initialize(initialValue)
+    await mining(20)
+
+    const startEpoch = (await environment.epoch()).toNumber() + 2
+    const invalids = [
+      { blockPeriod: 0 },
+      { epochPeriod: 2 },
+      { rewardRate: 101 },
+      { commissionRate: 101 },
+      { validatorThreshold: 0 },
+      { jailThreshold: 0 },
+      { jailPeriod: 0 },
+      { blockPeriod: 0, jailPeriod: 0 },
+    ]
+    for (const invalid of invalids) {
+      const value = toEnvironmentValue({ ...initialValue, startEpoch, ...invalid })
+      const errors = validateEnvironmentValue(value)
+      expect(errors).to.have.length.above(0)
+
+      // The contract reports the first failed check only.
+      await expect(environment.updateValue(value)).to.revertedWith(`ValidationError("${errors[0]}")`)
+    }
+    expect(validateEnvironmentValue(toEnvironmentValue({ ...initialValue, startEpoch }))).to.eql([])
+  })
+
+  it('computeStartBlock()', async () => {
+    await environment.initialize(initialValue)
+    await mining(24)
+
+    const values = await fetchEnvironmentValues(hre)
+    const value = toEnvironmentValue({ ...initialValue, startEpoch: 4 })
+    // The last block of epoch 3.
+    expect(() => computeStartBlock(values, value, 29)).to.throw('OnlyNotLastBlock')
+    expect(() => computeStartBlock(values, { ...value, startEpoch: 3 }, 25)).to.throw('PastEpoch')
+
+    const expected = computeStartBlock(values, value, 25)
+    await environment.updateValue(value)
+    expect(await getBlockNumber()).to.equal(25)
+    expect((await environment.nextValue()).startBlock).to.equal(expected)
+  })
+
+  it('parseEnvironmentProposal()', () => {
+    const json: { [field: string]: any } = { ...initialValue, validatorThreshold: '500000000000000000000' }
+    delete json.startBlock
+    expect(parseEnvironmentProposal(json)).to.eql(toEnvironmentValue(initialValue))
+    expect(() => parseEnvironmentProposal({ ...json, foo: 1 })).to.throw('Unknown field `foo`')
+    expect(() => parseEnvironmentProposal({ ...json, jailPeriod: undefined })).to.throw('Missing field `jailPeriod`')
+  })
+})
@@ -0,0 +1,121 @@
+import { ethers, network } from 'hardhat'
+import { Contract, utils } from 'ethers'
+import { expect } from 'chai'
+
+import { mining, PrecompileBLSVerifyAddress, PrecompileBLSVerifyBytecode } from '../helpers'
+import { getBLSPublicKey, signBLSMessage } from '../../tasks/bls'
+import {
+  FinalityEvidence,
+  VoteData,
+  VoteMessage,
+  assertFinalityEvidence,
+  buildFinalityEvidence,
+  getVoteHash,
+} from '../../tasks/finality'
+
+const epochPeriod = 20
+
+describe('tasks/finality', () => {
+  const secretKey = '0x' + '11'.repeat(32)
+  const voteAddr = getBLSPublicKey(secretKey)
+  const hash = (n: number) => utils.hexZeroPad(utils.hexlify(n), 32)
+
+  const vote = (srcNum: number, tarNum: number, tarHash = hash(tarNum)): VoteData => {
+    const data = { srcNum, srcHash: hash(srcNum), tarNum, tarHash }
+    return { ...data, sig: signBLSMessage(secretKey, getVoteHash(data)) }
+  }
+
+  const errorOf = (fn: () => void): string => {
+    try {
+      fn()
+    } catch (err) {
+      return (err as Error).message
+    }
+    return ''
+  }
+
+  it('getVoteHash()', () => {
+    const data = { srcNum: 0, srcHash: hash(1), tarNum: 128, tarHash: hash(2) }
+    const encoded = utils.hexConcat(['0xf845', '0x80', '0xa0', hash(1), '0x8180', '0xa0', hash(2)])
+    expect(getVoteHash(data)).to.equal(utils.keccak256(encoded))
+  })
+
+  it('buildFinalityEvidence()', () => {
+    const message = (v: VoteData, voteAddress = voteAddr): VoteMessage => ({
+      voteAddress,
+      signature: v.sig,
+      data: { sourceNumber: v.srcNum, sourceHash: v.srcHash, targetNumber: v.tarNum, targetHash: v.tarHash },
+    })
+    const a = vote(1, 3)
+    const b = vote(2, 3, hash(33))
+    expect(buildFinalityEvidence(message(a), message(b))).to.eql({ voteA: a, voteB: b, voteAddr })
+
+    const other = getBLSPublicKey('0x' + '22'.repeat(32))
+    expect(() => buildFinalityEvidence(message(a), message(b, other))).to.throw('different voters')
+  })
+
+  it('assertFinalityEvidence()', () => {
+    const check = (voteA: VoteData, voteB: VoteData, block = 10) =>
+      errorOf(() => assertFinalityEvidence({ voteA, voteB, voteAddr }, block, epochPeriod))
+
+    expect(check(vote(1, 3), vote(2, 3, hash(33)))).to.equal('')
+    expect(check(vote(1, 8), vote(2, 7))).to.equal('')
+    expect(check(vote(1, 3), vote(2, 3, hash(33)), 23)).to.match(/^TargetBlockTooOld/)
+    expect(check(vote(1, 3), vote(1, 3))).to.match(/^TwoIdenticalVotes/)
+    expect(check(vote(3, 3), vote(2, 3, hash(33)))).to.match(/^SrcNumBiggerThanTarNum/)
+    expect(check(vote(1, 3), vote(3, 5))).to.match(/^NoViolationOfVoteRules/)
+
+    // Signature over another vote.
+    const forged = { ...vote(2, 3, hash(33)), sig: vote(2, 4).sig }
+    expect(check(vote(1, 3), forged)).to.match(/^VerifySignatureFailed/)
+  })
+
+  describe('matches SlashIndicator', () => {
+    let slashIndicator: Contract
+
+    beforeEach(async () => {
+      const [deployer] = await ethers.getSigners()
+      await network.provider.send('hardhat_reset')
+      await network.provider.send('hardhat_setCoinbase', [deployer.address])
+      await network.provider.send('hardhat_setCode', [PrecompileBLSVerifyAddress, PrecompileBLSVerifyBytecode])
+      const precompile = (await ethers.getContractFactory('PrecompileBLSVerify')).attach(PrecompileBLSVerifyAddress)
+      await precompile.set(true, false)
+
+      const environment = await (await ethers.getContractFactory('Environment')).deploy()
+      await environment.initialize({
+        startBlock: 0,
+        startEpoch: 0,
+        blockPeriod: 15,
+        epochPeriod,
+        rewardRate: 10,
+        commissionRate: 0,
+        validatorThreshold: utils.parseEther('500'),
+        jailThreshold: 50,
+        jailPeriod: 2,
+      })
+
+      // The rule checks revert before jailing, so no StakeManager is needed.
+      const stakeManager = '0x' + '99'.repeat(20)
+      const factory = await ethers.getContractFactory('SlashIndicator')
+      slashIndicator = await factory.deploy(environment.address, stakeManager, 248)
+      await mining(30)
+    })
+
+    const cases: [string, () => FinalityEvidence][] = [
+      ['too old target', () => ({ voteA: vote(1, 3), voteB: vote(2, 3, hash(33)), voteAddr })],
+      ['identical votes', () => ({ voteA: vote(20, 25), voteB: vote(20, 25), voteAddr })],
+      ['source after target', () => ({ voteA: vote(25, 25), voteB: vote(20, 25, hash(33)), voteAddr })],
+      ['no violation', () => ({ voteA: vote(20, 22), voteB: vote(22, 25), voteAddr })],
+    ]
+    for (const [name, evidence] of cases) {
+      it(name, async () => {
+        const block = (await ethers.provider.getBlockNumber()) + 1
+        const error = errorOf(() => assertFinalityEvidence(evidence(), block, epochPeriod)).split(':')[0]
+        expect(error).not.to.equal('')
+
+        const tx = slashIndicator.submitFinalityViolationEvidence(evidence())
+        await expect(tx).to.be.revertedWithCustomError(slashIndicator, error)
+      })
+    }
+  })
+})
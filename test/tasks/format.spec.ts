@@ -0,0 +1,30 @@
+import { expect } from 'chai'
+
+import { formatTable, formatCSV, formatRows, parseFormat } from '../../tasks/format'
+
+describe('tasks/format', () => {
+  const rows = [
+    { name: 'alice', amount: '10.5', active: true },
+    { name: 'bob', amount: '1000', active: false },
+  ]
+
+  it('formatTable()', () => {
+    expect(formatTable(rows)).to.equal(
+      ['name   amount  active', '-----  ------  ------', 'alice    10.5  true', 'bob      1000  false'].join('\n'),
+    )
+  })
+
+  it('formatCSV()', () => {
+    expect(formatCSV(rows)).to.equal(['name,amount,active', 'alice,10.5,true', 'bob,1000,false'].join('\n'))
+    expect(formatCSV([{ note: 'a, "b"' }])).to.equal(['note', '"a, ""b"""'].join('\n'))
+  })
+
+  it('formatRows()', () => {
+    expect(JSON.parse(formatRows('json', rows))).to.eql(rows)
+  })
+
+  it('parseFormat()', () => {
+    expect(parseFormat('csv')).to.equal('csv')
+    expect(() => parseFormat('xml')).to.throw('Unknown format `xml`')
+  })
+})
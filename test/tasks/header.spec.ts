@@ -0,0 +1,103 @@
+import { ethers, network } from 'hardhat'
+import { Wallet, utils } from 'ethers'
+import { expect } from 'chai'
+
+import { makeSignedHeader, sealHeader } from '../helpers'
+import {
+  Header,
+  assertHeaderHash,
+  buildDoubleSignEvidence,
+  decodeDoubleSignInput,
+  decodeHeader,
+  encodeDoubleSignInput,
+  encodeHeader,
+  recoverSealer,
+  sealHash,
+  verifyDoubleSignInput,
+} from '../../tasks/header'
+
+const chainId = 248
+
+describe('tasks/header', () => {
+  const sealer = Wallet.createRandom()
+  let header: Header
+
+  const seal = (header: Header, wallet: Wallet): Header => sealHeader(header, wallet, chainId)
+
+  before(async () => {
+    await network.provider.send('hardhat_reset')
+    const [signer] = await ethers.getSigners()
+    await (await signer.sendTransaction({ to: signer.address, value: 1 })).wait()
+    header = await network.provider.send('eth_getBlockByNumber', ['latest', false])
+  })
+
+  it('encodeHeader()', () => {
+    expect(utils.keccak256(encodeHeader(header))).to.equal(header.hash)
+    expect(() => assertHeaderHash(header)).not.to.throw()
+    expect(() => assertHeaderHash({ ...header, gasUsed: '0x1' })).to.throw('not the block hash')
+
+    // Fields in the middle cannot be omitted.
+    if (header.baseFeePerGas && header.withdrawalsRoot) {
+      expect(() => encodeHeader({ ...header, baseFeePerGas: undefined })).to.throw('Missing `baseFeePerGas`')
+    }
+  })
+
+  it('sealHash() and recoverSealer()', () => {
+    const sealed = seal(header, sealer)
+    expect(recoverSealer(sealed, chainId)).to.equal(sealer.address)
+
+    // The chain id is a part of the seal hash.
+    expect(sealHash(sealed, chainId)).not.to.equal(sealHash(sealed, chainId + 1))
+    expect(recoverSealer(sealed, chainId + 1)).not.to.equal(sealer.address)
+
+    expect(() => sealHash({ ...header, extraData: '0x' }, chainId)).to.throw('has no signature')
+  })
+
+  it('buildDoubleSignEvidence()', () => {
+    const header1 = seal(header, sealer)
+    const header2 = seal({ ...header, timestamp: utils.hexValue(Number(header.timestamp) + 1) }, sealer)
+
+    const evidence = buildDoubleSignEvidence(header1, header2, chainId)
+    expect(evidence.sealer).to.equal(sealer.address)
+    expect(evidence.height).to.equal(Number(header.number))
+    expect(evidence.header1).to.equal(encodeHeader(header1))
+    expect(evidence.header2).to.equal(encodeHeader(header2))
+
+    const other = seal(header2, Wallet.createRandom())
+    expect(() => buildDoubleSignEvidence(header1, other, chainId)).to.throw('sealed by different operators')
+    expect(() => buildDoubleSignEvidence(header1, header1, chainId)).to.throw('the same block')
+
+    const next = seal({ ...header, number: utils.hexValue(Number(header.number) + 1) }, sealer)
+    expect(() => buildDoubleSignEvidence(header1, next, chainId)).to.throw('different heights')
+  })
+
+  it('decodeHeader()', () => {
+    const encoded = encodeHeader(header)
+    expect(decodeHeader(encoded).hash).to.equal(header.hash)
+    expect(encodeHeader(decodeHeader(encoded))).to.equal(encoded)
+
+    const sealed = makeSignedHeader(sealer, chainId, 100)
+    expect(decodeHeader(encodeHeader(sealed))).to.eql(sealed)
+    expect(recoverSealer(decodeHeader(encodeHeader(sealed)), chainId)).to.equal(sealer.address)
+
+    expect(() => decodeHeader(utils.RLP.encode([header.parentHash]))).to.throw('Not an RLP encoded header')
+  })
+
+  it('decodeDoubleSignInput() and verifyDoubleSignInput()', () => {
+    const header1 = makeSignedHeader(sealer, chainId, 100)
+    const header2 = makeSignedHeader(sealer, chainId, 100, { gasUsed: '0x5208' })
+    const input = encodeDoubleSignInput(chainId, encodeHeader(header1), encodeHeader(header2))
+
+    expect(decodeDoubleSignInput(input)).to.eql({ chainId, header1, header2 })
+    expect(verifyDoubleSignInput(input)).to.eql({ signer: sealer.address, evidenceHeight: 100 })
+
+    // The signatures do not recover to the same sealer with another chain id.
+    const other = encodeDoubleSignInput(chainId + 1, encodeHeader(header1), encodeHeader(header2))
+    expect(() => verifyDoubleSignInput(other)).to.throw('sealed by different operators')
+
+    const forged = makeSignedHeader(Wallet.createRandom(), chainId, 100)
+    const invalid = encodeDoubleSignInput(chainId, encodeHeader(header1), encodeHeader(forged))
+    expect(() => verifyDoubleSignInput(invalid)).to.throw('sealed by different operators')
+    expect(() => decodeDoubleSignInput(utils.RLP.encode([input]))).to.throw('Not a double-sign evidence')
+  })
+})
@@ -0,0 +1,301 @@
+import hre, { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from 'hardhat/builtin-tasks/task-names'
+
+import { ntoa } from '../helpers'
+import {
+  mergeStorageChanges,
+  stripMetadata,
+  codeAndHash,
+  getStorageByLayout,
+  getStorageLayout,
+  decodeStorage,
+  getErrorInterface,
+  findRevertData,
+  decodeRevert,
+  paginate,
+  retry,
+  diffJSON,
+  formatDifference,
+} from '../../tasks/lib'
+
+describe('tasks/lib', () => {
+  beforeEach(async () => {
+    await network.provider.send('hardhat_reset')
+  })
+
+  describe('codeAndHash()', () => {
+    // Compile the `Test` contract with the same compiler as the project.
+    const compile = async (source: string): Promise<string> => {
+      const solcVersion = '0.8.12'
+      const build = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion })
+      const input = {
+        language: 'Solidity',
+        sources: { 'Test.sol': { content: source } },
+        settings: { optimizer: { enabled: true, runs: 200 }, outputSelection: { '*': { '*': ['evm.bytecode'] } } },
+      }
+      const output = build.isSolcJs
+        ? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input, solcJsPath: build.compilerPath })
+        : await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input, solcPath: build.compilerPath })
+      return '0x' + output.contracts['Test.sol'].Test.evm.bytecode.object
+    }
+
+    const deploy = async (bytecode: string): Promise<string> => {
+      const contract = await new ethers.ContractFactory([], bytecode, (await ethers.getSigners())[0]).deploy()
+      return contract.address
+    }
+
+    it('same stripped code hash for the builds differing only in the metadata', async () => {
+      const source =
+        'pragma solidity 0.8.12;\ncontract Test { function f() external pure returns (uint256) { return 1; } }'
+      const original = await codeAndHash(hre, await deploy(await compile(source)))
+      // The comment changes the source hash in the metadata only.
+      const rebuilt = await codeAndHash(hre, await deploy(await compile(source + '\n// rebuilt\n')))
+
+      expect(rebuilt.code).to.not.equal(original.code)
+      expect(rebuilt.hash).to.not.equal(original.hash)
+      expect(rebuilt.codeHash).to.not.equal(original.codeHash)
+      expect(rebuilt.size).to.equal(original.size)
+      expect(rebuilt.strippedCodeHash).to.equal(original.strippedCodeHash)
+      expect(stripMetadata(original.code).length).to.be.lessThan(original.code.length)
+
+      // Different code before the metadata.
+      const changed = await codeAndHash(hre, await deploy(await compile(source.replace('return 1', 'return 2'))))
+      expect(changed.strippedCodeHash).to.not.equal(original.strippedCodeHash)
+    })
+
+    it('size and codeHash match eth_getCode', async () => {
+      const contract = await (await ethers.getContractFactory('AddressList')).deploy()
+      const code = await ethers.provider.send('eth_getCode', [contract.address, 'latest'])
+
+      const actual = await codeAndHash(hre, contract.address)
+      expect(actual.code).to.equal(code)
+      expect(actual.size).to.equal(ethers.utils.arrayify(code).length)
+      expect(actual.codeHash).to.equal(ethers.utils.keccak256(code))
+    })
+
+    it('code without metadata', () => {
+      expect(stripMetadata('0x')).to.equal('0x')
+      expect(stripMetadata('0x6001600055')).to.equal('0x6001600055')
+      // The length is out of range.
+      expect(stripMetadata('0x60010100')).to.equal('0x60010100')
+      // Not a CBOR map.
+      expect(stripMetadata('0x60018001')).to.equal('0x60018001')
+      expect(stripMetadata('0x6001a10001')).to.equal('0x6001')
+    })
+  })
+
+  describe('getStorageByLayout()', () => {
+    it('AddressList', async () => {
+      const addresses = [ntoa(10), ntoa(20), ntoa(30), ntoa(40), ntoa(50)]
+
+      const contract = await (await ethers.getContractFactory('AddressList')).deploy()
+      const txs = [
+        contract.deployTransaction.hash,
+        (await contract.adds(addresses)).hash,
+        (await contract.transferOwnership(ntoa(1))).hash,
+      ]
+
+      const traced = await mergeStorageChanges(hre, txs)
+      const actual = await getStorageByLayout(hre, contract.address, 'AddressList', { _ids: addresses })
+      expect(Object.keys(actual)).to.have.lengthOf(1 + 1 + addresses.length * 2)
+      expect(actual).to.eql(traced)
+    })
+
+    it('SOAS', async () => {
+      const contract = await (await ethers.getContractFactory('SOAS')).deploy([ntoa(1), ntoa(2)])
+
+      const traced = await mergeStorageChanges(hre, [contract.deployTransaction.hash])
+      const actual = await getStorageByLayout(hre, contract.address, 'SOAS')
+      expect(actual).to.eql(traced)
+    })
+  })
+
+  describe('decodeStorage()', () => {
+    it('AddressList', async () => {
+      const contract = await (await ethers.getContractFactory('AddressList')).deploy()
+      const txs = [
+        contract.deployTransaction.hash,
+        (await contract.adds([ntoa(10), ntoa(20), ntoa(30)])).hash,
+        (await contract.transferOwnership(ntoa(1))).hash,
+      ]
+
+      const layout = await getStorageLayout(hre, 'AddressList')
+      const decoded = decodeStorage(hre, layout, await mergeStorageChanges(hre, txs))
+      expect(decoded._owner).to.equal(ntoa(1))
+      expect(decoded._addresses).to.eql([ntoa(10), ntoa(20), ntoa(30)])
+      expect(decoded._ids).to.eql({ [ntoa(10)]: '1', [ntoa(20)]: '2', [ntoa(30)]: '3' })
+      expect(decoded).to.not.have.property('(unknown)')
+    })
+
+    it('SOAS', async () => {
+      const contract = await (await ethers.getContractFactory('SOAS')).deploy([ntoa(1), ntoa(2)])
+
+      const layout = await getStorageLayout(hre, 'SOAS')
+      const decoded = decodeStorage(hre, layout, await mergeStorageChanges(hre, [contract.deployTransaction.hash]))
+      expect(decoded._name).to.equal('Stakable OAS')
+      expect(decoded._symbol).to.equal('SOAS')
+      expect(decoded.allowedAddresses).to.eql([ntoa(1), ntoa(2)])
+    })
+  })
+
+  describe('decodeRevert()', () => {
+    const revertOf = async (tx: Promise<any>): Promise<string> => {
+      try {
+        await tx
+      } catch (err) {
+        return decodeRevert(await getErrorInterface(hre), findRevertData(err)!)
+      }
+      throw new Error('not reverted')
+    }
+
+    it('custom error', async () => {
+      const contract = await (await ethers.getContractFactory('StakeManager')).deploy()
+      const tx = contract.callStatic.updateBLSPublicKey('0x' + '01'.repeat(48))
+      expect(await revertOf(tx)).to.equal('ValidatorDoesNotExist()')
+    })
+
+    it('reason string', async () => {
+      const contract = await (await ethers.getContractFactory('WOAS')).deploy()
+      const tx = contract.callStatic['withdraw(uint256)'](1)
+      expect(await revertOf(tx)).to.equal('Error("over amount")')
+    })
+  })
+
+  describe('paginate()', () => {
+    const collect = async (pages: AsyncGenerator<{ cursor: number; page: any }>) => {
+      const actual: { cursor: number; addresses: string[] }[] = []
+      for await (const { cursor, page } of pages) actual.push({ cursor, addresses: page.addresses })
+      return actual
+    }
+
+    it('AddressList', async () => {
+      const contract = await (await ethers.getContractFactory('AddressList')).deploy()
+      await contract.adds([ntoa(10), ntoa(20), ntoa(30), ntoa(40), ntoa(50)])
+
+      const list = (cursor: number, howMany: number) => contract.list(cursor, howMany)
+      expect(await collect(paginate(list, { howMany: 2 }))).to.eql([
+        { cursor: 0, addresses: [ntoa(10), ntoa(20)] },
+        { cursor: 2, addresses: [ntoa(30), ntoa(40)] },
+        { cursor: 4, addresses: [ntoa(50)] },
+      ])
+      expect(await collect(paginate(list, { howMany: 5 }))).to.have.lengthOf(1)
+      expect(await collect(paginate(list, { howMany: 6 }))).to.have.lengthOf(1)
+    })
+
+    it('empty', async () => {
+      const contract = await (await ethers.getContractFactory('AddressList')).deploy()
+      expect(await collect(paginate((cursor, howMany) => contract.list(cursor, howMany)))).to.eql([])
+    })
+
+    it('shrink howMany', async () => {
+      const items = [...Array(9).keys()].map((i) => ntoa(i + 1))
+      const requested: number[] = []
+      const list = async (cursor: number, howMany: number) => {
+        requested.push(howMany)
+        if (howMany > 3) throw new Error('Transaction ran out of gas')
+        const addresses = items.slice(cursor, cursor + howMany)
+        return { addresses, newCursor: cursor + addresses.length }
+      }
+
+      const pages = await collect(paginate(list, { howMany: 16 }))
+      expect(pages.flatMap((x) => x.addresses)).to.eql(items)
+      expect(requested).to.eql([16, 8, 4, 2, 2, 2, 2, 2])
+
+      const failing = async () => {
+        throw new Error('execution reverted')
+      }
+      let message = ''
+      try {
+        await collect(paginate(failing))
+      } catch (err) {
+        message = (err as Error).message
+      }
+      expect(message).to.equal('execution reverted')
+    })
+  })
+
+  describe('retry()', () => {
+    it('retries until the call succeeds', async () => {
+      let calls = 0
+      const flaky = async () => {
+        calls++
+        if (calls < 3) throw new Error(`failure ${calls}`)
+        return calls
+      }
+      expect(await retry(flaky, { retries: 2, delay: 1 })).to.equal(3)
+
+      calls = 0
+      let message = ''
+      try {
+        await retry(flaky, { retries: 1, delay: 1 })
+      } catch (err) {
+        message = (err as Error).message
+      }
+      expect(message).to.equal('failure 2')
+    })
+  })
+
+  describe('diffJSON()', () => {
+    it('identical', () => {
+      const json = { a: 1, b: { c: [1, 2, { d: 'x' }] }, e: null }
+      expect(diffJSON(json, JSON.parse(JSON.stringify(json)))).to.eql([])
+    })
+
+    it('nested', () => {
+      const committed = { a: { b: { c: '0x01', d: true } }, e: 1 }
+      const generated = { a: { b: { c: '0x02', d: true } }, e: 2 }
+      expect(diffJSON(committed, generated)).to.eql([
+        { path: 'a.b.c', expect: '0x01', actual: '0x02' },
+        { path: 'e', expect: 1, actual: 2 },
+      ])
+    })
+
+    it('array', () => {
+      expect(diffJSON({ a: [1, 2, 3] }, { a: [1, 4] })).to.eql([
+        { path: 'a.1', expect: 2, actual: 4 },
+        { path: 'a.2', expect: 3, actual: undefined },
+      ])
+      expect(diffJSON([{ b: 1 }], [{ b: 2 }])).to.eql([{ path: '0.b', expect: 1, actual: 2 }])
+    })
+
+    it('missing key', () => {
+      expect(diffJSON({ a: 1, b: { c: 2 } }, { a: 1, d: 3 })).to.eql([
+        { path: 'b', expect: { c: 2 }, actual: undefined },
+        { path: 'd', expect: undefined, actual: 3 },
+      ])
+      // Object replaced by a primitive value.
+      expect(diffJSON({ a: { b: 1 } }, { a: null })).to.eql([{ path: 'a', expect: { b: 1 }, actual: null }])
+    })
+  })
+
+  describe('formatDifference()', () => {
+    it('values', () => {
+      expect(formatDifference({ path: 'a.b', expect: 1, actual: '1' })).to.equal('a.b: expect 1, actual "1"')
+      expect(formatDifference({ path: 'a.0', expect: [1], actual: undefined })).to.equal(
+        'a.0: expect [1], actual (missing)',
+      )
+      expect(formatDifference({ path: 'b', expect: undefined, actual: { c: 2 } })).to.equal(
+        'b: expect (missing), actual {"c":2}',
+      )
+    })
+
+    it('long hex', () => {
+      const code = '0x' + 'ab'.repeat(100)
+      expect(
+        formatDifference({ path: 'code', expect: code, actual: code.slice(0, 12) + 'cd' + code.slice(14) }),
+      ).to.equal('code: mismatch at byte 5 (expect 100 bytes, actual 100 bytes)')
+      expect(formatDifference({ path: 'code', expect: code, actual: code + 'ff' })).to.equal(
+        'code: mismatch at byte 100 (expect 100 bytes, actual 101 bytes)',
+      )
+      // Only one side is long, so truncated.
+      expect(formatDifference({ path: 'code', expect: code, actual: '0x' })).to.equal(
+        `code: expect ${code.slice(0, 66)}..., actual "0x"`,
+      )
+    })
+  })
+})
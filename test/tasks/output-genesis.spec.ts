@@ -0,0 +1,74 @@
+import hre, { ethers, network } from 'hardhat'
+import { expect } from 'chai'
+
+import { Networks, Storage, StorageStrategy, Chains } from '../../tasks/lib'
+import { Predeploys, PredeployName, deployPredeploy, initialHighStakeValidators } from '../../tasks/predeploys'
+import { Output, generateGenesisOutput } from '../../tasks/output-genesis'
+
+describe('tasks/output-genesis', () => {
+  const strategies: StorageStrategy[] = ['trace', 'layout']
+  const outputs = {} as { [strategy in StorageStrategy]: Output }
+
+  // Non-zero slots only, as the trace also reports the slots written with zero.
+  const nonZero = (storage: Storage): { [slot: string]: bigint } =>
+    Object.fromEntries(
+      Object.entries(storage)
+        .map(([slot, value]) => [BigInt(slot).toString(16), BigInt(value)])
+        .filter(([, value]) => value !== 0n),
+    )
+
+  before(async () => {
+    await network.provider.send('hardhat_reset')
+    for (const strategy of strategies) {
+      outputs[strategy] = await generateGenesisOutput(hre, strategy)
+    }
+  })
+
+  for (const strategy of strategies) {
+    it(`matches the deployed predeploys (strategy=${strategy})`, async () => {
+      for (const network of Object.keys(Chains) as Networks[]) {
+        expect(Object.keys(outputs[strategy][network])).to.eql(Object.values(Predeploys).map((x) => x.address))
+
+        for (const name of Object.keys(Predeploys) as PredeployName[]) {
+          const message = `${network} ${name}`
+          const alloc = outputs[strategy][network][Predeploys[name].address]
+          const { contract } = await deployPredeploy(hre, name, network)
+
+          expect(alloc.code).to.equal(await ethers.provider.getCode(contract.address), message)
+          expect(BigInt(alloc.balance)).to.equal((await ethers.provider.getBalance(contract.address)).toBigInt())
+          for (const [slot, value] of Object.entries(alloc.storage)) {
+            const actual = await ethers.provider.getStorageAt(contract.address, slot)
+            expect(BigInt(value)).to.equal(BigInt(actual), `${message} slot=${slot}`)
+          }
+        }
+      }
+    })
+  }
+
+  it('both strategies snapshot the same storage', () => {
+    for (const network of Object.keys(Chains) as Networks[]) {
+      for (const { address } of Object.values(Predeploys)) {
+        const [trace, layout] = strategies.map((strategy) => nonZero(outputs[strategy][network][address].storage))
+        expect(layout).to.eql(trace, `${network} ${address}`)
+      }
+    }
+  })
+
+  it('the alloc works at the predeploy addresses', async () => {
+    for (const [address, { code, storage, balance }] of Object.entries(outputs.trace.mainnet)) {
+      await network.provider.send('hardhat_setCode', [address, code])
+      await network.provider.send('hardhat_setBalance', [address, balance])
+      for (const [slot, value] of Object.entries(storage)) {
+        await network.provider.send('hardhat_setStorageAt', [address, ethers.utils.hexValue(slot), value])
+      }
+    }
+
+    const highStakes = await ethers.getContractAt('AddressList', Predeploys.CandidateValidatorManagerHighStakes.address)
+    const { addresses } = await highStakes.list(0, 100)
+    expect(addresses).to.eql(initialHighStakeValidators.mainnet)
+    expect(await highStakes.owner()).to.equal(Predeploys.CandidateValidatorManager.address)
+
+    const soas = await ethers.getContractAt('SOAS', Predeploys.SOAS.address)
+    expect(await soas.symbol()).to.equal('SOAS')
+  })
+})
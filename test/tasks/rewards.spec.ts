@@ -0,0 +1,190 @@
+import { ethers, network } from 'hardhat'
+import { BigNumber, Contract } from 'ethers'
+import { SignerWithAddress as Account } from '@nomiclabs/hardhat-ethers/signers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, Staker, mining, randomizer, deployStakeManager, Token } from '../helpers'
+import { EnvironmentValue, toEnvironmentValue } from '../../tasks/environment'
+import {
+  RewardConstants,
+  ValidatorEpoch,
+  annualize,
+  fetchStakerStakes,
+  fetchValidatorEpochs,
+  getStakerRewards,
+  getValidatorCommissions,
+  getValidatorRewards,
+  percent,
+  share,
+} from '../../tasks/rewards'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 4,
+  jailPeriod: 1,
+}
+
+const gasPrice = 0
+
+describe('tasks/rewards', () => {
+  const env = toEnvironmentValue(initialEnv)
+  const validatorEpoch = (epoch: number, totalStake: string, diff: Partial<ValidatorEpoch> = {}): ValidatorEpoch => ({
+    epoch,
+    env,
+    totalStake: ethers.utils.parseEther(totalStake),
+    blocks: 0,
+    slashes: 0,
+    active: true,
+    jailed: false,
+    ...diff,
+  })
+
+  it('percent() and share()', () => {
+    expect(percent(1, 3, 2)).to.equal(33)
+    expect(percent(2, 3, 2)).to.equal(67)
+    expect(share(BigNumber.from(1000), 1, 3, 2)).to.equal(330)
+  })
+
+  it('getValidatorRewards()', () => {
+    // 1000 OAS * 10% * 15s * 20 blocks / 1 year
+    expect(getValidatorRewards(validatorEpoch(72, '1000'))).to.equal('951293759512937')
+    expect(getValidatorRewards(validatorEpoch(72, '100'))).to.equal('95129375951293')
+    expect(getValidatorRewards(validatorEpoch(72, '0'))).to.equal(0)
+
+    // Fixed rate from epoch 73, and nothing under the validator threshold.
+    expect(getValidatorRewards(validatorEpoch(73, '1000'))).to.equal(toWei('0.2612'))
+    expect(getValidatorRewards(validatorEpoch(73, '499.999'))).to.equal(0)
+
+    expect(getValidatorRewards(validatorEpoch(73, '1000', { blocks: 10, slashes: 3 }))).to.equal(toWei('0.18284'))
+    expect(getValidatorRewards(validatorEpoch(73, '1000', { active: false }))).to.equal(0)
+    expect(getValidatorRewards(validatorEpoch(73, '1000', { jailed: true }))).to.equal(0)
+  })
+
+  it('getValidatorCommissions() and getStakerRewards()', () => {
+    const v = validatorEpoch(73, '1000')
+    expect(getValidatorCommissions(v)).to.equal(toWei('0.02612'))
+    expect(getStakerRewards(v, ethers.utils.parseEther('250'))).to.equal(toWei('0.05877'))
+    expect(getStakerRewards(v, BigNumber.from(0))).to.equal(0)
+    expect(getValidatorCommissions({ ...v, env: { ...env, commissionRate: 0 } })).to.equal(0)
+  })
+
+  it('annualize()', () => {
+    const epochsPerYear = RewardConstants.SECONDS_PER_YEAR / (15 * 20)
+    const rewards = getValidatorRewards(validatorEpoch(72, '1000'))
+    expect(annualize(rewards, ethers.utils.parseEther('1000'), 1, env)).to.be.closeTo(0.1, 1e-6)
+    expect(annualize(rewards.mul(2), ethers.utils.parseEther('1000'), 2, env)).to.be.closeTo(0.1, 1e-6)
+    expect(annualize(ethers.utils.parseEther('0.2612'), ethers.utils.parseEther('1000'), 1, env)).to.be.closeTo(
+      0.0002612 * epochsPerYear,
+      1e-6,
+    )
+  })
+
+  describe('matches StakeManager', () => {
+    let deployer: Account
+    let environment: Contract
+    let stakeManager: Contract
+    let validators: Validator[]
+    let stakers: Staker[]
+
+    const random = randomizer(1)
+
+    const setCoinbase = async (address: string) => {
+      await network.provider.send('hardhat_setCoinbase', [address])
+    }
+
+    beforeEach(async () => {
+      // Enough for the random stakes of every token, which are never claimed back.
+      ;({ deployer, environment, stakeManager, validators, stakers } = await deployStakeManager(initialEnv, {
+        validators: [1, 3, 5],
+        stakers: [11, 12, 13, 14],
+        mint: '5000',
+        balance: '20000',
+      }))
+    })
+
+    it('getCommissions() and getRewards()', async () => {
+      const staked = new Map<string, number>()
+      const tokens = [Token.OAS, Token.wOAS, Token.sOAS]
+
+      // Random stakes, unstakes, slashes, deactivations and environment updates across epoch 73.
+      for (let epoch = (await environment.epoch()).toNumber() + 1; epoch < 80; epoch++) {
+        // The epoch starts at the block `(epoch - 1) * epochPeriod`.
+        await mining((epoch - 1) * initialEnv.epochPeriod)
+
+        for (let i = random(1, 3); i > 0; i--) {
+          const staker = stakers[random(0, stakers.length - 1)]
+          const validator = validators[random(0, validators.length - 1)]
+          const token = tokens[random(0, tokens.length - 1)]
+          const key = `${staker.address}:${validator.owner.address}:${token}`
+          const amount = random(1, 20) * 10
+
+          if (random(0, 3) === 0 && (staked.get(key) ?? 0) >= amount) {
+            await staker.unstakeV2(token, validator, String(amount))
+            staked.set(key, staked.get(key)! - amount)
+          } else {
+            await staker.stake(token, validator, String(amount))
+            staked.set(key, (staked.get(key) ?? 0) + amount)
+          }
+        }
+
+        if (random(0, 2) === 0) {
+          const target = validators[random(0, validators.length - 1)]
+          const slasher = validators.find((x) => x !== target)!
+          await setCoinbase(slasher.operator.address)
+          for (let i = random(1, initialEnv.jailThreshold); i > 0; i--) await slasher.slash(target, 10)
+          await setCoinbase(deployer.address)
+        }
+
+        if (random(0, 9) === 0) {
+          await validators[random(0, validators.length - 1)].deactivateValidator([epoch + 1])
+        }
+
+        if (random(0, 9) === 0) {
+          const value: EnvironmentValue = toEnvironmentValue(await environment.value())
+          await environment.updateValue(
+            { ...value, startEpoch: epoch + 1, rewardRate: random(0, 20), commissionRate: random(0, 50) },
+            { gasPrice },
+          )
+        }
+      }
+      await mining(79 * initialEnv.epochPeriod)
+      expect(await environment.epoch()).to.equal(80)
+
+      const values = []
+      for (let epoch = 1, prev = -1; epoch < 80; epoch++) {
+        const value = toEnvironmentValue(await environment.findValue(epoch))
+        if (value.startEpoch !== prev) values.push(value)
+        prev = value.startEpoch
+      }
+
+      const sum = (xs: BigNumber[]) => xs.reduce((a, b) => a.add(b), BigNumber.from(0))
+      const epochs = [...Array(79).keys()].map((i) => i + 1)
+      for (const validator of validators) {
+        const owner = validator.owner.address
+        const validatorEpochs = await fetchValidatorEpochs(stakeManager, values, owner, epochs)
+
+        // Up to the epoch before 73, and up to the previous epoch.
+        for (const n of [72, 79]) {
+          const expected = sum(validatorEpochs.slice(0, n).map(getValidatorCommissions))
+          expect(await stakeManager.getCommissions(owner, n)).to.equal(expected, `validator=${owner} epochs=${n}`)
+        }
+
+        for (const staker of stakers) {
+          const stakes = await fetchStakerStakes(stakeManager, staker.address, owner, epochs)
+          const rewards = validatorEpochs.map((v, i) => getStakerRewards(v, stakes[i]))
+          for (const n of [72, 79]) {
+            const actual = await stakeManager.getRewards(staker.address, owner, n)
+            expect(actual).to.equal(sum(rewards.slice(0, n)), `staker=${staker.address} validator=${owner} epochs=${n}`)
+          }
+        }
+      }
+    })
+  })
+})
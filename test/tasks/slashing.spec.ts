@@ -0,0 +1,203 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { ethers, network } from 'hardhat'
+import { Contract } from 'ethers'
+import { SignerWithAddress as Account } from '@nomiclabs/hardhat-ethers/signers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import {
+  Validator,
+  deployStakeManager,
+  getWallet,
+  StakeManagerSlots,
+  makeSignedHeader,
+  mining,
+  PrecompileDoubleSignAddress,
+  PrecompileDoubleSignBytecode,
+} from '../helpers'
+import { EnvironmentValue, getEpoch, toEnvironmentValue } from '../../tasks/environment'
+import { encodeHeader } from '../../tasks/header'
+import { SlashingContracts, processSlashingEvents, readCheckpoint, writeCheckpoint } from '../../tasks/slashing'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 0,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 2,
+  jailPeriod: 1,
+}
+
+const chainId = 248
+
+describe('tasks/slashing', () => {
+  let deployer: Account
+  let contracts: SlashingContracts
+  let values: EnvironmentValue[]
+  let validators: Validator[]
+
+  let dir: string
+  let server: http.Server
+  let webhook: string
+  let received: any[]
+  let status: number
+
+  const errorOf = async (promise: Promise<any>): Promise<string> => {
+    try {
+      await promise
+    } catch (err) {
+      return (err as Error).message
+    }
+    throw new Error('not rejected')
+  }
+
+  const setCoinbase = async (address: string) => {
+    await network.provider.send('hardhat_setCoinbase', [address])
+  }
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        if (status === 200) received.push(JSON.parse(body))
+        res.writeHead(status).end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    webhook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`
+  })
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'watch-slashing-'))
+    received = []
+    status = 200
+
+    const fixture = await deployStakeManager(initialEnv)
+    ;({ deployer, validators } = fixture)
+    const { environment, stakeManager } = fixture
+    values = [toEnvironmentValue(await environment.value())]
+    await network.provider.send('hardhat_setCode', [PrecompileDoubleSignAddress, PrecompileDoubleSignBytecode])
+
+    const slashIndicator: Contract = await (await ethers.getContractFactory('SlashIndicator'))
+      .connect(deployer)
+      .deploy(environment.address, stakeManager.address, chainId)
+    contracts = { stakeManager, slashIndicator }
+
+    // Allow the SlashIndicator to jail the validators.
+    const pad = (s: string) => ethers.utils.hexZeroPad(s, 32)
+    const slot = ethers.utils.keccak256(pad(slashIndicator.address) + pad(StakeManagerSlots.jailCallers).slice(2))
+    await network.provider.send('hardhat_setStorageAt', [stakeManager.address, slot, pad('0x1')])
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true })
+  })
+
+  it('processSlashingEvents()', async () => {
+    const [target, slasher] = validators
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+
+    // Start of the epoch, so the slashes are counted in the same epoch.
+    await mining(initialEnv.epochPeriod)
+
+    // Jailed by the slashes up to the threshold.
+    await setCoinbase(slasher.operator.address)
+    await slasher.slash(target, 10)
+    await slasher.slash(target, 10)
+    await setCoinbase(deployer.address)
+    const until = getEpoch(values, await ethers.provider.getBlockNumber()) + initialEnv.jailPeriod
+
+    // Jailed by the double sign evidence.
+    const height = await ethers.provider.getBlockNumber()
+    const operatorWallet = getWallet(slasher.operator)
+    const header1 = makeSignedHeader(operatorWallet, chainId, height)
+    const header2 = makeSignedHeader(operatorWallet, chainId, height, { gasUsed: '0x5208' })
+    const precompile = (await ethers.getContractFactory('PrecompileDoubleSign')).attach(PrecompileDoubleSignAddress)
+    await precompile.set(slasher.operator.address, height, false)
+    await contracts.slashIndicator.submitDoubleSignEvidence(encodeHeader(header1), encodeHeader(header2))
+
+    const toBlock = await ethers.provider.getBlockNumber()
+    const checkpoint = path.join(dir, 'checkpoint.json')
+    const lines: string[] = []
+    const events = await processSlashingEvents(contracts, values, fromBlock, toBlock, {
+      checkpoint,
+      webhook,
+      output: (line) => lines.push(line),
+    })
+
+    expect(events.map((x) => x.event)).to.eql([
+      'ValidatorSlashed',
+      'ValidatorSlashed',
+      'ValidatorJailed',
+      'ValidatorJailed',
+      'DoubleSignEvidenceSubmitted',
+    ])
+    expect(events.map((x) => x.validator)).to.eql([
+      ...Array(3).fill(target.owner.address),
+      ...Array(2).fill(slasher.owner.address),
+    ])
+    expect(events.map((x) => x.operator)).to.eql([
+      ...Array(3).fill(target.operator.address),
+      ...Array(2).fill(slasher.operator.address),
+    ])
+    expect(events[4].evidenceHeight).to.equal(height)
+
+    // Released at the start of the epoch after `until`, which is not mined yet.
+    const jailed = events[2]
+    expect(jailed.until).to.equal(until)
+    expect(jailed.releaseBlock).to.equal(jailed.until! * initialEnv.epochPeriod)
+    expect(jailed.releaseTimeEstimated).to.be.true
+    const latest = await ethers.provider.getBlock('latest')
+    const seconds = (jailed.releaseBlock! - latest.number) * initialEnv.blockPeriod
+    expect(jailed.releaseTime).to.equal(new Date((latest.timestamp + seconds) * 1000).toISOString())
+
+    // The same events are delivered to the stdout and the webhook.
+    expect(lines.map((x) => JSON.parse(x))).to.eql(events)
+    expect(received).to.eql(events)
+    expect(readCheckpoint(checkpoint)).to.equal(toBlock)
+
+    // Once mined, the release time is of the block.
+    await mining(jailed.releaseBlock!)
+    const options = { output: () => undefined }
+    const reprocessed = await processSlashingEvents(contracts, values, jailed.blockNumber, jailed.blockNumber, options)
+    const resolved = reprocessed.find((x) => x.event === 'ValidatorJailed')!
+    const releasedAt = (await ethers.provider.getBlock(jailed.releaseBlock!)).timestamp
+    expect(resolved.releaseTimeEstimated).to.be.false
+    expect(resolved.releaseTime).to.equal(new Date(releasedAt * 1000).toISOString())
+  })
+
+  it('checkpoint is not advanced unless the webhook accepts the events', async () => {
+    const [target, slasher] = validators
+    await setCoinbase(slasher.operator.address)
+    await slasher.slash(target, 10)
+    await setCoinbase(deployer.address)
+    const block = await ethers.provider.getBlockNumber()
+
+    const checkpoint = path.join(dir, 'checkpoint.json')
+    expect(readCheckpoint(checkpoint)).to.be.undefined
+    writeCheckpoint(checkpoint, block - 1)
+
+    status = 500
+    const options = { checkpoint, webhook, output: () => undefined }
+    expect(await errorOf(processSlashingEvents(contracts, values, block, block, options))).to.match(/responded 500$/)
+    expect(readCheckpoint(checkpoint)).to.equal(block - 1)
+
+    status = 200
+    const events = await processSlashingEvents(contracts, values, readCheckpoint(checkpoint)! + 1, block, options)
+    expect(events.map((x) => x.event)).to.eql(['ValidatorSlashed'])
+    expect(received).to.eql(events)
+    expect(readCheckpoint(checkpoint)).to.equal(block)
+  })
+})
@@ -0,0 +1,76 @@
+import { ethers } from 'hardhat'
+import { Contract } from 'ethers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, mining, deployStakeManager, Token } from '../helpers'
+import { getHighStakeValidators } from '../../tasks/snapshot-high-stakes'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/snapshot-high-stakes', () => {
+  let environment: Contract
+  let stakeManager: Contract
+  let candidateManager: Contract
+  let validators: Validator[]
+
+  // Mine up to the first block of the next epoch, where `onlyNotLastBlock` methods can be called.
+  const nextEpoch = async () => {
+    const epoch = (await environment.epoch()).toNumber()
+    await mining(epoch * initialEnv.epochPeriod)
+  }
+
+  const getHighStakes = async (epoch: number): Promise<string[]> => {
+    const { owners } = await candidateManager.getHighStakes(epoch, 0, 100)
+    return owners
+  }
+
+  beforeEach(async () => {
+    ;({ environment, stakeManager, candidateManager, validators } = await deployStakeManager(initialEnv, {
+      validators: [1, 3, 5, 7, 9],
+    }))
+  })
+
+  it('getHighStakeValidators()', async () => {
+    const [v1, v2, v3, v4, v5] = validators
+
+    await nextEpoch()
+    await v1.stake(Token.OAS, v1, '600')
+    await v2.stake(Token.OAS, v2, '499')
+    await v3.stake(Token.OAS, v3, '700')
+
+    await nextEpoch()
+    // Above the threshold in the current epoch only.
+    await v3.unstakeV2(Token.OAS, v3, '300')
+    // Above the threshold in the next epoch only.
+    await v4.stake(Token.OAS, v4, '500')
+    // Below the threshold in the next epoch, and so removed from the list.
+    await v5.stake(Token.OAS, v5, '500')
+    await v5.unstakeV2(Token.OAS, v5, '1')
+
+    const blockNumber = await ethers.provider.getBlockNumber()
+    const epoch = (await environment.epoch()).toNumber()
+    const snapshot = await getHighStakeValidators(environment, stakeManager, blockNumber, 2)
+    expect(snapshot.epoch).to.equal(epoch)
+    expect(snapshot.validators).to.eql([v1, v3, v4].map((x) => x.owner.address))
+    expect(snapshot.validators).to.have.same.members(await getHighStakes(epoch))
+    expect(snapshot.validators).to.have.same.members(await getHighStakes(epoch + 1))
+
+    // Stakes after the block are not in the snapshot of the block.
+    await v2.stake(Token.OAS, v2, '1')
+    const latest = await getHighStakeValidators(environment, stakeManager, await ethers.provider.getBlockNumber())
+    expect(latest.validators).to.eql([v1, v2, v3, v4].map((x) => x.owner.address))
+    expect(latest.validators).to.have.same.members(await getHighStakes(epoch + 1))
+    expect(await getHighStakeValidators(environment, stakeManager, blockNumber)).to.eql(snapshot)
+  })
+})
@@ -0,0 +1,199 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import hre, { ethers, network } from 'hardhat'
+import { BigNumber, Contract } from 'ethers'
+import { SignerWithAddress as Account } from '@nomiclabs/hardhat-ethers/signers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, Staker, mining, deployStakeManager, makeBLSKeyPair, Token } from '../helpers'
+import { toEnvironmentValue } from '../../tasks/environment'
+import {
+  getLastIndexedBlock,
+  getStakeBalances,
+  getStakerHistory,
+  getValidatorHistory,
+  indexStakeEvents,
+  openStakeIndex,
+} from '../../tasks/stake-index'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/stake-index', () => {
+  let accounts: Account[]
+  let environment: Contract
+  let stakeManager: Contract
+  let validators: Validator[]
+  let stakers: Staker[]
+  let dir: string
+  let database: string
+
+  // Mine up to the first block of the next epoch, where `onlyNotLastBlock` methods can be called.
+  const nextEpoch = async () => {
+    const epoch = (await environment.epoch()).toNumber()
+    await mining(epoch * initialEnv.epochPeriod)
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stake-index-'))
+    database = path.join(dir, 'index.db')
+    ;({ accounts, environment, stakeManager, validators, stakers } = await deployStakeManager(initialEnv, {
+      stakers: [11, 12],
+    }))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true })
+  })
+
+  it('indexStakeEvents()', async () => {
+    const [v1, v2] = validators
+    const [s1, s2] = stakers
+    const blsPublicKey = makeBLSKeyPair().publicKey
+    const newOperator = accounts[19].address
+
+    await nextEpoch()
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+    await s1.stake(Token.OAS, v1, '500')
+    await s1.stake(Token.wOAS, v1, '200')
+    await s2.stake(Token.sOAS, v2, '300')
+
+    await nextEpoch()
+    await s1.unstakeV2(Token.OAS, v1, '100')
+    await v1.updateOperator(newOperator)
+    await v2.updateBLSPublicKey(blsPublicKey)
+    await network.provider.send('evm_increaseTime', [10 * 24 * 60 * 60])
+    await s1.claimLockedUnstake(0)
+
+    // Rewards and commissions of the previous epoch.
+    await nextEpoch()
+    const rewards = await stakeManager.getRewards(s1.address, v1.owner.address, 0)
+    await s1.restakeRewards(v1)
+    await s1.claimRewards(v1, 0)
+    await v1.claimCommissions()
+    const toBlock = await ethers.provider.getBlockNumber()
+
+    const values = [toEnvironmentValue(await environment.value())]
+    const db = openStakeIndex(database, stakeManager.address)
+    const chunks: [number, number][] = []
+    const count = await indexStakeEvents(db, stakeManager, values, fromBlock, toBlock, {
+      chunk: 4,
+      onChunk: (from, to) => chunks.push([from, to]),
+    })
+    expect(count).to.equal(10)
+    expect(getLastIndexedBlock(db)).to.equal(toBlock)
+    expect(chunks[0][0]).to.equal(fromBlock)
+    expect(chunks[chunks.length - 1][1]).to.equal(toBlock)
+    chunks.slice(1).forEach(([from], i) => expect(from).to.equal(chunks[i][1] + 1))
+
+    const s1History = getStakerHistory(db, s1.address)
+    expect(s1History.map((x) => x.event)).to.eql([
+      'Staked',
+      'Staked',
+      'UnstakedV2',
+      'ClaimedLockedUnstake',
+      'ReStaked',
+      'ClaimedRewards',
+    ])
+    const [, staked, unstaked, claimed, restaked] = s1History
+    expect(staked).to.include({ validator: v1.owner.address, token: 'WOAS', amount: toWei('200') })
+    expect(unstaked).to.include({ validator: v1.owner.address, token: 'OAS', amount: toWei('100'), lockedUnstake: 0 })
+    // The validator of the locked unstake is resolved from the `UnstakedV2`.
+    expect(claimed).to.include({ validator: v1.owner.address, token: 'OAS', amount: toWei('100'), lockedUnstake: 0 })
+    expect(restaked).to.include({ validator: v1.owner.address, token: 'OAS', amount: rewards.toString() })
+    expect(getStakerHistory(db, s1.address, v2.owner.address)).to.eql([])
+
+    for (const event of s1History) {
+      const block = await ethers.provider.getBlock(event.blockNumber)
+      expect(event.timestamp).to.equal(block.timestamp)
+      expect(event.epoch).to.equal((await environment.epoch({ blockTag: event.blockNumber })).toNumber())
+    }
+
+    expect(getValidatorHistory(db, v1.owner.address).map((x) => x.event)).to.eql([
+      'Staked',
+      'Staked',
+      'UnstakedV2',
+      'OperatorUpdated',
+      'ClaimedLockedUnstake',
+      'ReStaked',
+      'ClaimedRewards',
+      'ClaimedCommissions',
+    ])
+    const v2History = getValidatorHistory(db, v2.owner.address)
+    expect(v2History.map((x) => x.event)).to.eql(['Staked', 'BLSPublicKeyUpdated'])
+    expect(v2History[1]).to.include({ oldValue: '0x', newValue: blsPublicKey })
+    expect(getValidatorHistory(db, v1.owner.address)[3]).to.include({
+      oldValue: v1.operator.address,
+      newValue: newOperator,
+    })
+
+    // Same as the stakes of the next epoch, which include the ones not effective yet.
+    const epoch = (await environment.epoch()).toNumber() + 1
+    const tokens = ['OAS', 'WOAS', 'SOAS']
+    for (const staker of stakers) {
+      const expected: { [key: string]: string } = {}
+      const stakes = await stakeManager.getStakerStakes(staker.address, epoch, 0, 100)
+      stakes._validators.forEach((validator: string, i: number) => {
+        const amounts: BigNumber[] = [stakes.oasStakes[i], stakes.woasStakes[i], stakes.soasStakes[i]]
+        amounts.forEach((amount, j) => {
+          if (!amount.isZero()) expected[`${validator}:${tokens[j]}`] = amount.toString()
+        })
+      })
+
+      const actual = Object.fromEntries(
+        getStakeBalances(db, { staker: staker.address })
+          .filter((x) => !x.amount.isZero())
+          .map((x) => [`${x.validator}:${x.token}`, x.amount.toString()]),
+      )
+      expect(actual).to.eql(expected, `staker=${staker.address}`)
+    }
+
+    // Re-indexing replaces the same events.
+    await indexStakeEvents(db, stakeManager, values, fromBlock, toBlock)
+    expect(getStakerHistory(db, s1.address)).to.eql(s1History)
+    db.close()
+
+    expect(() => openStakeIndex(database, ethers.constants.AddressZero)).to.throw('indexed from the StakeManager')
+  })
+
+  it('openStakeIndex() readonly', async () => {
+    const missing = path.join(dir, 'missing.db')
+    expect(() => openStakeIndex(missing, stakeManager.address, { readonly: true })).to.throw(
+      'unable to open database file',
+    )
+    expect(fs.existsSync(missing)).to.be.false
+
+    // The query task neither creates the database.
+    let message = ''
+    try {
+      await hre.run('stake-history', { database: missing, staker: accounts[11].address })
+    } catch (err) {
+      message = (err as Error).message
+    }
+    expect(message).to.equal('unable to open database file')
+    expect(fs.readdirSync(dir)).to.eql([])
+
+    openStakeIndex(database, stakeManager.address).close()
+    const content = fs.readFileSync(database)
+    const db = openStakeIndex(database, stakeManager.address, { readonly: true })
+    expect(getStakerHistory(db, accounts[11].address)).to.eql([])
+    expect(() => db.prepare("UPDATE state SET value = '0' WHERE key = 'stakeManager'").run()).to.throw('readonly')
+    db.close()
+    expect(fs.readFileSync(database).equals(content)).to.be.true
+
+    expect(() => openStakeIndex(database, ethers.constants.AddressZero, { readonly: true })).to.throw(
+      'indexed from the StakeManager',
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import { ethers, network } from 'hardhat'
+import { Contract } from 'ethers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, Staker, mining, deployStakeManager, Token } from '../helpers'
+import { formatDuration, getStakerReport } from '../../tasks/staker-report'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/staker-report', () => {
+  it('formatDuration()', () => {
+    expect(formatDuration(-1)).to.equal('0m')
+    expect(formatDuration(59)).to.equal('1m')
+    expect(formatDuration(3600)).to.equal('1h')
+    expect(formatDuration(3599 + 3600)).to.equal('2h')
+    expect(formatDuration(10 * 86400 - 60)).to.equal('9d 23h 59m')
+  })
+
+  describe('getStakerReport()', () => {
+    let environment: Contract
+    let stakeManager: Contract
+    let validators: Validator[]
+    let stakers: Staker[]
+
+    // Mine up to the first block of the next epoch.
+    const nextEpoch = async () => {
+      const epoch = (await environment.epoch()).toNumber()
+      await mining(epoch * initialEnv.epochPeriod)
+    }
+
+    const getRewards = async (staker: Staker, validator: Validator): Promise<string> =>
+      ethers.utils.formatEther(await stakeManager.getRewards(staker.address, validator.owner.address, 0))
+
+    beforeEach(async () => {
+      ;({ environment, stakeManager, validators, stakers } = await deployStakeManager(initialEnv, {
+        stakers: [11, 12],
+      }))
+    })
+
+    it('stakes, rewards and locked unstakes', async () => {
+      const [v1, v2] = validators
+      const [s1, s2] = stakers
+
+      await nextEpoch()
+      await s1.stake(Token.OAS, v1, '100')
+      await s1.stake(Token.wOAS, v2, '50')
+      await s2.stake(Token.sOAS, v1, '30')
+      await nextEpoch()
+      await nextEpoch()
+
+      await s1.unstakeV2(Token.OAS, v1, '40')
+      await s1.unstakeV2(Token.wOAS, v2, '50')
+      await network.provider.send('evm_increaseTime', [10 * 86400])
+      await s1.claimLockedUnstake(0)
+      await s2.unstakeV2(Token.sOAS, v1, '10')
+
+      const report = await getStakerReport(stakeManager, [s1.address, s2.address])
+
+      // The unstakes take effect from the next epoch.
+      expect(report.stakes).to.eql([
+        {
+          staker: s1.address,
+          validator: v1.owner.address,
+          OAS: '100.0',
+          WOAS: '0.0',
+          SOAS: '0.0',
+          rewards: await getRewards(s1, v1),
+        },
+        {
+          staker: s1.address,
+          validator: v2.owner.address,
+          OAS: '0.0',
+          WOAS: '50.0',
+          SOAS: '0.0',
+          rewards: await getRewards(s1, v2),
+        },
+        {
+          staker: s2.address,
+          validator: v1.owner.address,
+          OAS: '0.0',
+          WOAS: '0.0',
+          SOAS: '30.0',
+          rewards: await getRewards(s2, v1),
+        },
+      ])
+
+      // The validator without the stake of the staker is skipped, but not the one with the rewards only.
+      const epoch = (await environment.epoch()).toNumber()
+      const next = await getStakerReport(stakeManager, [s1.address, s2.address], epoch + 1)
+      expect(next.stakes.map(({ validator, OAS, WOAS, SOAS }) => [validator, OAS, WOAS, SOAS])).to.eql([
+        [v1.owner.address, '60.0', '0.0', '0.0'],
+        [v2.owner.address, '0.0', '0.0', '0.0'],
+        [v1.owner.address, '0.0', '0.0', '20.0'],
+      ])
+      expect(Number(next.stakes[1].rewards)).to.be.greaterThan(0)
+      expect(next.lockedUnstakes).to.eql(report.lockedUnstakes)
+
+      // The claimed locked unstake is skipped.
+      const { timestamp } = await ethers.provider.getBlock('latest')
+      const unlockTimeOf = async (staker: Staker, index: number): Promise<number> =>
+        (await stakeManager.getLockedUnstakes(staker.address, index, 1)).unlockTimes[0].toNumber()
+      expect(report.lockedUnstakes).to.eql([
+        {
+          staker: s1.address,
+          index: 1,
+          token: 'WOAS',
+          amount: '50.0',
+          unlockTime: new Date((await unlockTimeOf(s1, 1)) * 1000).toISOString(),
+          remaining: '0m',
+          claimable: true,
+        },
+        {
+          staker: s2.address,
+          index: 0,
+          token: 'SOAS',
+          amount: '10.0',
+          unlockTime: new Date((await unlockTimeOf(s2, 0)) * 1000).toISOString(),
+          remaining: formatDuration((await unlockTimeOf(s2, 0)) - timestamp),
+          claimable: false,
+        },
+      ])
+      expect(report.lockedUnstakes[1].remaining).to.equal('10d')
+
+      const rewards = await Promise.all([getRewards(s1, v1), getRewards(s1, v2), getRewards(s2, v1)])
+      expect(report.total).to.eql({
+        stakers: 2,
+        OAS: '100.0',
+        WOAS: '50.0',
+        SOAS: '30.0',
+        rewards: ethers.utils.formatEther(
+          rewards.reduce((sum, x) => sum.add(ethers.utils.parseEther(x)), ethers.BigNumber.from(0)),
+        ),
+        lockedOAS: '0.0',
+        lockedWOAS: '50.0',
+        lockedSOAS: '10.0',
+      })
+    })
+  })
+})
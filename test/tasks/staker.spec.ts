@@ -0,0 +1,85 @@
+import hre, { ethers, network } from 'hardhat'
+import { BigNumber } from 'ethers'
+import { expect } from 'chai'
+
+import { Token, WOASAddress, SOASAddress, TestERC20Bytecode } from '../helpers'
+import { Tokens, TokenName, parseToken, approveIfShort } from '../../tasks/staker'
+import { Predeploys } from '../../tasks/predeploys'
+
+describe('tasks/staker', () => {
+  it('Tokens', () => {
+    expect(Tokens).to.eql({ OAS: Token.OAS, WOAS: Token.wOAS, SOAS: Token.sOAS })
+  })
+
+  it('parseToken()', () => {
+    expect(parseToken('OAS')).to.equal('OAS')
+    expect(parseToken('woas')).to.equal('WOAS')
+    expect(parseToken('sOAS')).to.equal('SOAS')
+    expect(() => parseToken('LOAS')).to.throw('Unknown token `LOAS`, expect one of OAS|WOAS|SOAS')
+  })
+
+  describe('approveIfShort()', () => {
+    const amount = ethers.utils.parseEther('100')
+    const taskArgs = { confirmations: '1', dryRun: false }
+
+    let log: typeof console.log
+
+    const tokens: { [token: string]: string } = { WOAS: WOASAddress, SOAS: SOASAddress }
+
+    const allowance = async (token: TokenName): Promise<BigNumber> => {
+      const [signer] = await ethers.getSigners()
+      const erc20 = await ethers.getContractAt('WOAS', tokens[token])
+      return erc20.allowance(signer.address, Predeploys.StakeManager.address)
+    }
+
+    const approve = async (token: TokenName, value: BigNumber) => {
+      const erc20 = await ethers.getContractAt('WOAS', tokens[token])
+      await erc20.approve(Predeploys.StakeManager.address, value)
+    }
+
+    before(() => {
+      log = console.log
+      console.log = () => {}
+    })
+
+    after(() => {
+      console.log = log
+    })
+
+    beforeEach(async () => {
+      await network.provider.send('hardhat_reset')
+      for (const address of Object.values(tokens)) {
+        await network.provider.send('hardhat_setCode', [address, TestERC20Bytecode])
+      }
+    })
+
+    it('OAS', async () => {
+      expect(await approveIfShort(hre, taskArgs, 'OAS', amount)).to.be.false
+    })
+
+    for (const token of Object.keys(tokens) as TokenName[]) {
+      it(`${token} allowance above the amount`, async () => {
+        await approve(token, amount.add(1))
+        expect(await approveIfShort(hre, taskArgs, token, amount)).to.be.false
+        expect(await allowance(token)).to.equal(amount.add(1))
+      })
+
+      it(`${token} allowance equal to the amount`, async () => {
+        await approve(token, amount)
+        expect(await approveIfShort(hre, taskArgs, token, amount)).to.be.false
+        expect(await allowance(token)).to.equal(amount)
+      })
+
+      it(`${token} allowance below the amount`, async () => {
+        await approve(token, amount.sub(1))
+
+        expect(await approveIfShort(hre, { ...taskArgs, dryRun: true }, token, amount)).to.be.true
+        expect(await allowance(token)).to.equal(amount.sub(1))
+
+        // Exactly the amount, not added to the existing allowance.
+        expect(await approveIfShort(hre, taskArgs, token, amount)).to.be.true
+        expect(await allowance(token)).to.equal(amount)
+      })
+    }
+  })
+})
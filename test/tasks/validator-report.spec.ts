@@ -0,0 +1,77 @@
+import { BigNumber, Contract } from 'ethers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, mining, deployStakeManager, Token } from '../helpers'
+import { getValidatorReport } from '../../tasks/validator-report'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/validator-report', () => {
+  let environment: Contract
+  let stakeManager: Contract
+  let validators: Validator[]
+
+  // Mine up to the first block of the next epoch.
+  const nextEpoch = async () => {
+    const epoch = (await environment.epoch()).toNumber()
+    await mining(epoch * initialEnv.epochPeriod)
+  }
+
+  beforeEach(async () => {
+    ;({ environment, stakeManager, validators } = await deployStakeManager(initialEnv))
+  })
+
+  it('getValidatorReport()', async () => {
+    const [v1, v2] = validators
+
+    await nextEpoch()
+    await v1.stake(Token.OAS, v1, '400')
+    await nextEpoch()
+    await v1.stake(Token.OAS, v1, '600')
+    await nextEpoch()
+    await nextEpoch()
+    await nextEpoch()
+
+    const epoch = (await environment.epoch()).toNumber()
+    const epochs = [epoch - 4, epoch - 3, epoch - 2, epoch - 1, epoch]
+    const rows = await getValidatorReport(environment, stakeManager, epochs)
+    expect(rows.map((x) => [x.validator, x.epoch])).to.eql([
+      ...epochs.map((x) => [v1.owner.address, x]),
+      ...epochs.map((x) => [v2.owner.address, x]),
+    ])
+
+    const report = rows.slice(0, epochs.length)
+    expect(report.map((x) => x.stakes)).to.eql(['0.0', '400.0', '1000.0', '1000.0', '1000.0'])
+    expect(report.map((x) => x.aboveThreshold)).to.eql([false, false, true, true, true])
+    expect(report.map((x) => x.slashRatio)).to.eql(['0.00%', '0.00%', '0.00%', '0.00%', '0.00%'])
+
+    // Per epoch commissions, empty for the unfinished epoch.
+    const [c0, c1, c2, c3, c4] = report.map((x) => x.commissions as string)
+    expect(c0).to.equal('0.0')
+    expect(Number(c1)).to.be.greaterThan(0)
+    expect(Number(c2)).to.be.greaterThan(Number(c1))
+    expect(c3).to.equal(c2)
+    expect(c4).to.equal('')
+
+    // Sum up to the unclaimed total of `getCommissions`.
+    const total = [c0, c1, c2, c3].reduce((sum, x) => sum.add(toWei(x)), BigNumber.from(0))
+    expect(total).to.equal(await stakeManager.getCommissions(v1.owner.address, 0))
+
+    // The claimed epochs are empty.
+    const { lastClaimCommission } = await stakeManager.validators(v1.owner.address)
+    await v1.claimCommissions(undefined, epoch - 3 - lastClaimCommission.toNumber())
+    const claimed = await getValidatorReport(environment, stakeManager, epochs, [v1.owner.address])
+    expect(claimed.map((x) => x.commissions)).to.eql(['', '', c2, c3, ''])
+  })
+})
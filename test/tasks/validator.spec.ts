@@ -0,0 +1,160 @@
+import hre, { ethers } from 'hardhat'
+import { Contract } from 'ethers'
+import type { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { toWei } from 'web3-utils'
+import { expect } from 'chai'
+
+import { Validator, mining, deployStakeManager } from '../helpers'
+import { parseEpochs } from '../../tasks/validator'
+
+const initialEnv = {
+  startBlock: 0,
+  startEpoch: 0,
+  blockPeriod: 15,
+  epochPeriod: 20,
+  rewardRate: 10,
+  commissionRate: 10,
+  validatorThreshold: toWei('500'),
+  jailThreshold: 50,
+  jailPeriod: 2,
+}
+
+describe('tasks/validator', () => {
+  describe('parseEpochs()', () => {
+    it('single epoch', () => {
+      expect(parseEpochs('120')).to.eql([120])
+    })
+
+    it('range', () => {
+      expect(parseEpochs('120-123')).to.eql([120, 121, 122, 123])
+    })
+
+    it('mixed, unsorted and duplicated', () => {
+      expect(parseEpochs('130, 120-122,121')).to.eql([120, 121, 122, 130])
+    })
+
+    it('invalid', () => {
+      expect(() => parseEpochs('130-120')).to.throw('the start is greater than the end')
+      expect(() => parseEpochs('abc')).to.throw('Invalid epoch `abc`')
+      expect(() => parseEpochs('')).to.throw('Invalid epoch ``')
+    })
+  })
+
+  describe('tasks', () => {
+    const taskArgs = { confirmations: '1' }
+
+    let accounts: SignerWithAddress[]
+    let signer: SignerWithAddress
+    let operator: SignerWithAddress
+    let environment: Contract
+    let stakeManager: Contract
+    let validators: Validator[]
+    let log: typeof console.log
+
+    // Mine up to the first block of the next epoch, where `onlyNotLastBlock` methods can be called.
+    const nextEpoch = async (): Promise<number> => {
+      const epoch = (await environment.epoch()).toNumber()
+      await mining(epoch * initialEnv.epochPeriod)
+      return epoch + 1
+    }
+
+    const errorOf = async (promise: Promise<any>): Promise<string> => {
+      try {
+        await promise
+      } catch (err) {
+        return (err as Error).message
+      }
+      throw new Error('not rejected')
+    }
+
+    const joinValidator = () => hre.run('join-validator', { ...taskArgs, operator: operator.address })
+
+    before(() => {
+      log = console.log
+      console.log = () => {}
+    })
+
+    after(() => {
+      console.log = log
+    })
+
+    beforeEach(async () => {
+      let allowlist: Contract
+      ;({ accounts, environment, allowlist, stakeManager, validators } = await deployStakeManager(initialEnv, {
+        predeploys: true,
+      }))
+      // The tasks send from the first signer.
+      ;[signer] = accounts
+      operator = accounts[10]
+      await allowlist.addAddress(signer.address)
+      await nextEpoch()
+    })
+
+    it('join-validator', async () => {
+      await hre.run('join-validator', { ...taskArgs, operator: operator.address, dryRun: true })
+      expect((await stakeManager.getValidatorInfo(signer.address, 0)).operator).to.equal(ethers.constants.AddressZero)
+
+      await joinValidator()
+      expect((await stakeManager.getValidatorInfo(signer.address, 0)).operator).to.equal(operator.address)
+      expect(await stakeManager.operatorToOwner(operator.address)).to.equal(signer.address)
+    })
+
+    it('update-operator', async () => {
+      await joinValidator()
+      await hre.run('update-operator', { ...taskArgs, operator: accounts[11].address })
+      expect((await stakeManager.getValidatorInfo(signer.address, 0)).operator).to.equal(accounts[11].address)
+    })
+
+    it('activate-validator and deactivate-validator', async () => {
+      await joinValidator()
+      const epoch = (await environment.epoch()).toNumber()
+      const isActive = async (epoch: number) => (await stakeManager.getValidatorInfo(signer.address, epoch)).active
+
+      await hre.run('deactivate-validator', { ...taskArgs, epochs: `${epoch + 1}-${epoch + 3}` })
+      expect(await Promise.all([1, 2, 3].map((x) => isActive(epoch + x)))).to.eql([false, false, false])
+
+      await hre.run('activate-validator', { ...taskArgs, epochs: `${epoch + 2}`, validator: signer.address })
+      expect(await Promise.all([1, 2, 3].map((x) => isActive(epoch + x)))).to.eql([false, true, false])
+    })
+
+    it('claim-commissions and restake-commissions', async () => {
+      await joinValidator()
+      const amount = ethers.utils.parseEther('500')
+      await stakeManager.stake(signer.address, 0, amount, { value: amount })
+      await nextEpoch()
+      await nextEpoch()
+      await nextEpoch()
+
+      // Leave the last finished epoch to restake.
+      const { lastClaimCommission } = await stakeManager.validators(signer.address)
+      const epochs = (await environment.epoch()).toNumber() - 2 - lastClaimCommission.toNumber()
+      const balance = await ethers.provider.getBalance(stakeManager.address)
+      const claiming = await stakeManager.getCommissions(signer.address, epochs)
+      expect(claiming).to.not.equal(0)
+
+      await hre.run('claim-commissions', { ...taskArgs, epochs: String(epochs) })
+      expect(await ethers.provider.getBalance(stakeManager.address)).to.equal(balance.sub(claiming))
+
+      const commissions = await stakeManager.getCommissions(signer.address, 0)
+      expect(commissions).to.not.equal(0)
+      const epoch = (await environment.epoch()).toNumber()
+      const stakes = async () => stakeManager['getValidatorStakes(address,uint256)'](signer.address, epoch + 1)
+      const before = await stakes()
+
+      await hre.run('restake-commissions', taskArgs)
+      expect(await stakes()).to.equal(before.add(commissions))
+      expect(await stakeManager.getCommissions(signer.address, 0)).to.equal(0)
+    })
+
+    it('decoded revert', async () => {
+      // The operator is already used by the validator of the fixture.
+      const message = await errorOf(
+        hre.run('join-validator', { ...taskArgs, operator: validators[0].operator.address }),
+      )
+      expect(message).to.equal('joinValidator reverts with AlreadyInUse()')
+
+      const dryRun = hre.run('update-operator', { ...taskArgs, operator: operator.address, dryRun: true })
+      expect(await errorOf(dryRun)).to.equal('updateOperator reverts with ValidatorDoesNotExist()')
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { expect } from 'chai'
+
+import { initialHighStakeValidators } from '../../tasks/predeploys'
+import { parseValidatorSetsFile, assertValidatorSet, resolvePredeployConfig } from '../../tasks/validators'
+
+describe('tasks/validators', () => {
+  const [v1, v2, v3] = [
+    '0x86652fE437425AC63211C55b6b067B3181BBcB17',
+    '0xa505014a84e8BdC4A620470A53EAd872b0c1CA5b',
+    '0xF5100e233E0A5AF82e9C6f3DEdF6Ca2E45099eF8',
+  ]
+
+  let tmpdir: string
+
+  const writeFile = (name: string, content: string): string => {
+    const filepath = path.join(tmpdir, name)
+    fs.writeFileSync(filepath, content)
+    return filepath
+  }
+
+  before(() => {
+    tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'validators-'))
+  })
+
+  after(() => {
+    fs.rmSync(tmpdir, { recursive: true })
+  })
+
+  describe('parseValidatorSetsFile()', () => {
+    it('JSON', () => {
+      const filepath = writeFile('sets.json', JSON.stringify({ mainnet: [v1, v2], localnet: [] }))
+      expect(parseValidatorSetsFile(filepath)).to.eql({ mainnet: [v1, v2], localnet: [] })
+    })
+
+    it('CSV', () => {
+      const filepath = writeFile(
+        'sets.CSV',
+        ['network,address', '# comment', `mainnet, ${v1}`, '', `testnet,${v3}`, `mainnet,${v2}`].join('\r\n'),
+      )
+      expect(parseValidatorSetsFile(filepath)).to.eql({ mainnet: [v1, v2], testnet: [v3] })
+    })
+
+    it('unparsable', () => {
+      expect(() => parseValidatorSetsFile(writeFile('broken.json', '{ "mainnet": ['))).to.throw(SyntaxError)
+
+      const filepath = writeFile('broken.csv', `mainnet,${v1}\nmainnet ${v2}`)
+      expect(() => parseValidatorSetsFile(filepath)).to.throw(
+        `${filepath}:2: expected \`network,address\`, got \`mainnet ${v2}\``,
+      )
+    })
+
+    it('unknown network', () => {
+      const json = writeFile('unknown.json', JSON.stringify({ devnet: [v1] }))
+      expect(() => parseValidatorSetsFile(json)).to.throw(`${json}: unknown network \`devnet\``)
+
+      const csv = writeFile('unknown.csv', `devnet,${v1}`)
+      expect(() => parseValidatorSetsFile(csv)).to.throw(`${csv}: unknown network \`devnet\``)
+    })
+  })
+
+  describe('assertValidatorSet()', () => {
+    it('valid', () => {
+      expect(assertValidatorSet('mainnet', [v1, v2, v3])).to.eql([v1, v2, v3])
+      expect(assertValidatorSet('localnet', [])).to.eql([])
+    })
+
+    it('invalid address', () => {
+      expect(() => assertValidatorSet('mainnet', [v1, '0x1234'])).to.throw('mainnet: invalid address 0x1234')
+      expect(() => assertValidatorSet('testnet', ['validator'])).to.throw('testnet: invalid address validator')
+    })
+
+    it('not checksummed', () => {
+      expect(() => assertValidatorSet('mainnet', [v1.toLowerCase()])).to.throw(
+        `mainnet: address ${v1.toLowerCase()} is not checksummed, expect ${v1}`,
+      )
+    })
+
+    it('duplicated', () => {
+      expect(() => assertValidatorSet('testnet', [v1, v2, v1])).to.throw(`testnet: address ${v1} is duplicated`)
+    })
+  })
+
+  describe('resolvePredeployConfig()', () => {
+    it('defaults', () => {
+      expect(resolvePredeployConfig({})).to.eql({ highStakeValidators: initialHighStakeValidators })
+    })
+
+    it('file over the defaults', () => {
+      const validators = writeFile('file.json', JSON.stringify({ testnet: [v1, v2] }))
+      expect(resolvePredeployConfig({ validators }).highStakeValidators).to.eql({
+        ...initialHighStakeValidators,
+        testnet: [v1, v2],
+      })
+    })
+
+    it('params over the file', () => {
+      const validators = writeFile('params.csv', `mainnet,${v1}\ntestnet,${v1}\ntestnet,${v2}`)
+      const { highStakeValidators } = resolvePredeployConfig({
+        validators,
+        testnetValidators: ` ${v3}, ,${v2}`,
+        localnetValidators: '',
+      })
+      expect(highStakeValidators).to.eql({ mainnet: [v1], testnet: [v3, v2], localnet: [] })
+      // The defaults are not modified.
+      expect(initialHighStakeValidators.testnet).to.eql(['0xF886672205399c186638abfA9Dc155dEe9CBBD2e'])
+    })
+
+    it('asserts the resolved sets', () => {
+      const validators = writeFile('invalid.json', JSON.stringify({ mainnet: [v1, v1] }))
+      expect(() => resolvePredeployConfig({ validators })).to.throw(`mainnet: address ${v1} is duplicated`)
+      // Overridden by the valid param.
+      expect(resolvePredeployConfig({ validators, mainnetValidators: v2 }).highStakeValidators.mainnet).to.eql([v2])
+      expect(() => resolvePredeployConfig({ testnetValidators: v3.toLowerCase() })).to.throw('is not checksummed')
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import hre from 'hardhat'
+import { expect } from 'chai'
+
+describe('tasks/verify-outputs', () => {
+  const file = 'output-slash-indicator.json'
+  const committed = JSON.parse(fs.readFileSync(path.join(hre.config.paths.root, 'outputs', file), 'utf-8'))
+
+  let tmpdir: string
+  let exitCode: typeof process.exitCode
+
+  // Run the task and return the printed lines.
+  const verifyOutputs = async (): Promise<string[]> => {
+    const lines: string[] = []
+    const log = console.log
+    console.log = (...args: any[]) => lines.push(args.join(' '))
+    try {
+      await hre.run('verify-outputs', { dir: tmpdir })
+    } finally {
+      console.log = log
+    }
+    return lines
+  }
+
+  beforeEach(() => {
+    tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-outputs-'))
+    exitCode = process.exitCode
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpdir, { recursive: true })
+    process.exitCode = exitCode
+  })
+
+  it('passes the unchanged output', async () => {
+    fs.writeFileSync(path.join(tmpdir, file), JSON.stringify(committed))
+
+    const lines = await verifyOutputs()
+    expect(lines).to.include(`OK   ${file}`)
+    expect(lines).to.include('SKIP output-genesis.json: not committed')
+    expect(process.exitCode).to.equal(exitCode)
+  })
+
+  it('flags the changed output', async () => {
+    const changed = { ...committed, testnet: { ...committed.testnet, codeHash: '0x' + '00'.repeat(32) } }
+    fs.writeFileSync(path.join(tmpdir, file), JSON.stringify(changed))
+
+    const lines = await verifyOutputs()
+    expect(lines).to.include(`FAIL ${file}: 1 differences`)
+    expect(lines).to.include(
+      `  testnet.codeHash: expect "${changed.testnet.codeHash}", actual "${committed.testnet.codeHash}"`,
+    )
+    expect(process.exitCode).to.equal(1)
+  })
+})